@@ -1,661 +1,315 @@
 'use client';
 
-import {
-  RealtimeAgent,
-  RealtimeSession,
-  TransportEvent,
-  RealtimeItem,
-} from '@openai/agents/realtime';
 import { useEffect, useRef, useState } from 'react';
-import { WavRecorder, WavStreamPlayer } from 'wavtools';
 import { getToken } from './server/token.action';
+import { getVoicePreview } from './server/voicePreview.action';
 import { Button } from '@/components/ui/Button';
-import { TranscriptDisplay, TranscriptItem } from '@/components/TranscriptDisplay';
-import { SettingsPanel, VoiceSettings, InputMode } from '@/components/SettingsPanel';
+import { TranscriptDisplay } from '@/components/TranscriptDisplay';
+import { HintCard } from '@/components/HintCard';
+import { HintPanel } from '@/components/HintPanel';
+import { PinnedHints } from '@/components/PinnedHints';
+import { EventInspector } from '@/components/EventInspector';
+import { SettingsPanel } from '@/components/SettingsPanel';
+import { ReferencePanel } from '@/components/ReferencePanel';
+import { MicrophonePanel } from '@/components/MicrophonePanel';
+import { SessionPicker } from '@/components/SessionPicker';
+import { ExportMenu } from '@/components/ExportMenu';
+import { activePhrases, DEFAULT_TRIGGERS } from '@/lib/triggers';
+import { DEFAULT_RESPONSE_LANGUAGE, DEFAULT_TRANSCRIPTION_LANGUAGE } from '@/lib/languages';
+import { DEFAULT_DURATION_MARGIN } from '@/lib/durationLimit';
+import { bindHotkeys, DEFAULT_HOTKEYS } from '@/lib/hotkeys';
+import type { VoiceSettings } from '@/lib/settings';
+import type { TranscriptItem } from '@/lib/transcript';
+import type { Hint } from '@/lib/hints';
+import { DEFAULT_OUTPUT, DEFAULT_VOICE, OutputSettings, playPreview, Voice } from '@/lib/outputAudio';
+import type { InputDevice } from '@/lib/inputDevices';
+import type { InputLevel } from '@/lib/inputLevel';
+import { TokenProvider, tokenRequestFor } from '@/lib/tokenClient';
+import { EventLog } from '@/lib/eventLog';
+import { AgentState, TriggerSessionController } from '@/lib/triggerSessionController';
+import {
+  StoredSession,
+  StoredSessionSummary,
+  createSessionId,
+  deleteSession,
+  listSessions,
+  loadOutputSettings,
+  loadSession,
+  loadSettings,
+  saveOutputSettings,
+  saveSession,
+  saveSettings,
+  sessionTitle,
+} from '@/lib/sessionStore';
 
 const DEFAULT_SETTINGS: VoiceSettings = {
-  quickHintPhrase: 'good question',
-  fullGuidancePhrase: 'let me think',
+  triggers: DEFAULT_TRIGGERS,
   interruptPhrases: ['got it'],
-  quickHintDuration: 10,
-  fullGuidanceDuration: 20,
   inputMode: 'audio', // Default to audio input mode
+  transport: 'websocket',
+  notes: '',
+  references: [],
+  durationMargin: DEFAULT_DURATION_MARGIN,
+  hotkeys: DEFAULT_HOTKEYS,
+  holdToTalk: false,
+  transcriptionLanguage: DEFAULT_TRANSCRIPTION_LANGUAGE,
+  responseLanguage: DEFAULT_RESPONSE_LANGUAGE,
+  voice: DEFAULT_VOICE,
 };
 
+const TRIGGER_BUTTON_VARIANTS = ['success', 'warning', 'primary', 'default'] as const;
+
+const SAVE_DEBOUNCE_MS = 1000;
+
+function HotkeyHint({ combo }: { combo: string | undefined }) {
+  if (!combo) return null;
+  return <kbd className="px-1.5 py-0.5 text-[10px] font-mono rounded bg-black/10">{combo}</kbd>;
+}
+
 export default function Home() {
-  const session = useRef<RealtimeSession<any> | null>(null);
-  const recorder = useRef<WavRecorder | null>(null);
-  const player = useRef<WavStreamPlayer | null>(null);
-  const transcriptCache = useRef<Map<string, string>>(new Map()); // Cache transcripts by item_id
-  const sessionHistory = useRef<RealtimeItem[]>([]); // Store full session history for LLM context logging
-
-  // For text input mode: accumulate transcripts and track audio items
-  const accumulatedTranscripts = useRef<string[]>([]); // Accumulate user transcripts before trigger
-  const audioItemIds = useRef<string[]>([]); // Track audio item IDs to delete when creating combined message
-  const textConversationHistory = useRef<any[]>([]); // Maintain text-only conversation history for multi-turn
-
-  // Agent states
-  type AgentState = 'idle' | 'listening' | 'generating' | 'speaking';
-  const [agentState, setAgentState] = useState<AgentState>('idle');
-  const isPlayingAudio = useRef(false); // Track if audio is actually playing
+  const controller = useRef<TriggerSessionController | null>(null);
+  const liveSession = useRef<StoredSession | null>(null); // Session being recorded while connected
+  const connecting = useRef(false); // Connect in flight (agentState lags a render behind)
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const tokens = useRef<TokenProvider | null>(null);
 
+  const [agentState, setAgentState] = useState<AgentState>('disconnected');
   const [isConnected, setIsConnected] = useState(false);
   const [isListening, setIsListening] = useState(true);
+  const [isTalking, setIsTalking] = useState(false); // Hold-to-talk key held
+  const [inputDevices, setInputDevices] = useState<InputDevice[]>([]);
+  const [selectedInputDevice, setSelectedInputDevice] = useState<string | null>(null);
+  const [inputLevel, setInputLevel] = useState<InputLevel | null>(null);
+  const [silentSeconds, setSilentSeconds] = useState(0);
+  const [output, setOutput] = useState<OutputSettings>(DEFAULT_OUTPUT);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [settings, setSettings] = useState<VoiceSettings>(DEFAULT_SETTINGS);
   const [transcripts, setTranscripts] = useState<TranscriptItem[]>([]);
-  const [events, setEvents] = useState<TransportEvent[]>([]);
-  const [conversationHistory, setConversationHistory] = useState<string[]>([]);
-
-  // Create agent with simplified instructions for triggered responses
-  const createAgent = (settings: VoiceSettings) => {
-    const instructions = `You are a helpful voice assistant. ALWAYS respond in English, regardless of the language used in the conversation.
-
-When asked to provide a hint or guidance, base your response on the recent conversation context.
-
-For quick hints (${settings.quickHintDuration} seconds): Provide brief, actionable advice in 1-2 sentences.
-For full guidance (${settings.fullGuidanceDuration} seconds): Provide comprehensive step-by-step explanations with context and examples.
-
-Always be concise, helpful, and base responses on what the user was discussing. Remember: ALWAYS use English for all responses.`;
-
-    return new RealtimeAgent({
-      name: 'Voice Assistant',
-      instructions,
-      tools: [],
-    });
-  };
-
+  const [hints, setHints] = useState<Hint[]>([]); // Triggered responses this session
+  const [cardHintId, setCardHintId] = useState<string | null>(null); // Shown above the transcript
+  const [pinnedHintIds, setPinnedHintIds] = useState<string[]>([]);
+  const [eventLog] = useState(() => new EventLog()); // Bounded; lives as long as the page
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [savedSessions, setSavedSessions] = useState<StoredSessionSummary[]>([]);
+  const [viewedSession, setViewedSession] = useState<StoredSession | null>(null); // Read-only past session
+
+  // Restore settings and the most recent session after a reload
   useEffect(() => {
-    const agent = createAgent(settings);
-
-    // Use WebSocket transport for manual audio control
-    session.current = new RealtimeSession(agent, {
-      transport: 'websocket',
-      model: 'gpt-realtime',
-      config: {
-        modalities: ['text'], // Text-only mode - agent cannot produce audio
-        voice: 'alloy',
-        turn_detection: null,
-        input_audio_transcription: {
-          model: 'gpt-4o-mini-transcribe', // More accurate real-time transcription
-          language: 'en', // Force English transcription
-        },
-      },
-    });
-
-    // Set up audio recorder and player
-    recorder.current = new WavRecorder({ sampleRate: 24000 });
-    player.current = new WavStreamPlayer({ sampleRate: 24000 });
-
-    // Handle all transport events
-    session.current.on('transport_event', (event) => {
-      setEvents((prev) => [...prev, event]);
-
-      // Check for and suppress expected errors first
-      if (event.type === 'error') {
-        // @ts-ignore - error event structure
-        const errorCode = event.error?.code;
-
-        // Suppress expected "empty buffer" errors - these happen when VAD
-        // fires before any audio has been sent (e.g., at session start)
-        if (errorCode === 'input_audio_buffer_commit_empty') {
-          // Silently ignore - this is expected behavior at session start
-          return;
-        }
-
-        // Suppress "response_cancel_not_active" - happens when we try to cancel
-        // after response finished but audio is still playing
-        if (errorCode === 'response_cancel_not_active') {
-          console.log('ℹ️ Response already completed (audio was still playing)');
-          return;
-        }
-
-        // Log other errors
-        console.group('🔴 Server Error Event');
-        console.error('Server error event:', event);
-        console.error('Error details:', JSON.stringify(event, null, 2));
-        console.groupEnd();
-        return;
-      }
-
-      // Log important events for debugging (after filtering out suppressed errors)
-      if (event.type === 'session.created') {
-        console.log('📡 Transport event:', event.type, event);
-        // @ts-ignore
-        const sessionData = event.session;
-        console.log('  Initial session config:', sessionData);
-
-        // Configure session for silent listening with transcription
-        console.log('🔧 Configuring session for trigger-based responses...');
-        session.current?.transport?.sendEvent({
-          type: 'session.update',
-          session: {
-            type: 'realtime', // Required field
-            output_modalities: ['text'], // Text-only mode - prevents audio responses
-            audio: {
-              input: {
-                transcription: {
-                  model: 'gpt-4o-mini-transcribe',
-                  language: 'en', // Force English transcription
-                },
-                turn_detection: {
-                  type: 'semantic_vad',
-                  eagerness: 'low',
-                  create_response: false, // CRITICAL: Disable auto-response
-                  interrupt_response: false,
-                },
-              },
-              output: {
-                voice: 'alloy', // Voice config
-              },
-            },
-          },
-        });
-      }
-
-      // Server VAD detected speech starting - interrupt immediately if audio is playing
-      if (event.type === 'input_audio_buffer.speech_started') {
-        // IMMEDIATE barge-in: Stop agent if audio is playing OR if generating/speaking
-        if (isPlayingAudio.current || agentState === 'speaking' || agentState === 'generating') {
-          console.log(`⚡ BARGE-IN: User started speaking while audio playing - interrupting IMMEDIATELY`);
-          interruptAgent();
-        } else {
-          console.log(`ℹ️ Speech started but no audio playing (agent state: ${agentState})`);
-        }
-      }
-
-
-      // Track audio items that are auto-created by server_vad (for text input mode)
-      if (event.type === 'conversation.item.created' && settings.inputMode === 'text') {
-        // @ts-ignore
-        const item = event.item;
-        if (item?.role === 'user' && item?.type === 'message') {
-          // Check if this is an audio input item
-          const hasAudioContent = item.content?.some((c: any) => c.type === 'input_audio');
-          if (hasAudioContent) {
-            console.log(`📌 [Text Mode] Tracking audio item ID for deletion: ${item.id}`);
-            audioItemIds.current.push(item.id);
-          }
+    (async () => {
+      try {
+        const storedSettings = await loadSettings();
+        if (storedSettings) {
+          setSettings({ ...DEFAULT_SETTINGS, ...storedSettings });
         }
-      }
-
-      // Confirm deletions (for debugging)
-      if (event.type === 'conversation.item.deleted') {
-        // @ts-ignore
-        console.log(`🗑️ Item deleted confirmed: ${event.item_id}`);
-      }
-
-      // Listen for transcription completion
-      if (event.type === 'conversation.item.input_audio_transcription.completed') {
-        // @ts-ignore
-        const transcript = event.transcript;
-
-        if (transcript) {
-          const textLower = transcript.toLowerCase();
-
-          // Check for interrupt phrases first
-          const interruptDetected = settings.interruptPhrases.some(phrase =>
-            textLower.includes(phrase.toLowerCase())
-          );
-
-          if (interruptDetected && (agentState === 'speaking' || agentState === 'generating')) {
-            console.log(`⛔ Interrupt phrase detected during ${agentState}: "${transcript}"`);
-            interruptAgent();
-            return;
-          }
-
-          // Check for trigger phrases
-          const quickHintDetected = textLower.includes(settings.quickHintPhrase.toLowerCase());
-          const fullGuidanceDetected = textLower.includes(settings.fullGuidancePhrase.toLowerCase());
-
-          // In text mode, accumulate transcripts before triggering
-          if (settings.inputMode === 'text') {
-            console.log(`📝 [Text Mode] Accumulating transcript: "${transcript}"`);
-            accumulatedTranscripts.current.push(transcript);
-          }
-
-          if (quickHintDetected || fullGuidanceDetected) {
-            // Check if already generating a response
-            if (agentState === 'generating' || agentState === 'speaking') {
-              console.log(`⚠️ Agent is ${agentState}, ignoring trigger`);
-              return;
-            }
-
-            const responseType = quickHintDetected ? 'quick hint' : 'full guidance';
-            const duration = quickHintDetected ? settings.quickHintDuration : settings.fullGuidanceDuration;
-
-            setAgentState('generating');
-
-            // Handle text input mode: combine transcripts into single message
-            let textModeMessage = '';
-            if (settings.inputMode === 'text') {
-              textModeMessage = accumulatedTranscripts.current.join(' ');
-              console.log(`🎯 [Text Mode] Trigger detected! Combined user message: "${textModeMessage}"`);
-
-              // Add the user message to text conversation history
-              textConversationHistory.current.push({
-                type: 'message',
-                role: 'user',
-                content: [
-                  {
-                    type: 'input_text',
-                    text: textModeMessage,
-                  },
-                ],
-              });
-
-              // Clear the tracked IDs and transcripts
-              audioItemIds.current = [];
-              accumulatedTranscripts.current = [];
-
-              // Clear the audio buffer (audio was only used for transcription)
-              session.current?.transport?.sendEvent({
-                type: 'input_audio_buffer.clear',
-              });
-            } else {
-              // Audio mode: just log, conversation already has audio items
-              console.log(`🎯 [Audio Mode] Trigger detected: "${transcript}"`);
-              console.log(`📤 [Audio Mode] Creating ${responseType} response with audio input...`);
-            }
-
-            // Switch session to audio mode for response
-            session.current?.transport?.sendEvent({
-              type: 'session.update',
-              session: {
-                type: 'realtime',
-                output_modalities: ['audio'], // Audio-only mode for voice response
-              },
-            });
-
-            // Wait a moment before creating response
-            setTimeout(() => {
-              const instructions = `RESPOND IN ENGLISH ONLY. Provide a ${responseType} (around ${duration} seconds) based on the conversation context. ${
-                quickHintDetected
-                  ? 'Be brief and actionable, 1-2 sentences.'
-                  : 'Be comprehensive with steps and examples.'
-              }`;
-
-              // Prepare response creation event
-              let responseEvent: any = {
-                type: 'response.create',
-                response: {
-                  instructions,
-                },
-              };
-
-              // In text mode, use explicit input with full conversation history
-              if (settings.inputMode === 'text' && textModeMessage) {
-                console.group('🤖 LLM Request Details (Voice Trigger - Text Mode)');
-                console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log('Mode: TEXT INPUT (explicit multi-turn context)');
-                console.log('Trigger Type:', quickHintDetected ? 'Quick Hint' : 'Full Guidance');
-                console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log('\n📋 INSTRUCTIONS SENT TO LLM:');
-                console.log(instructions);
-                console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log('💬 EXPLICIT INPUT (full text conversation history):');
-                console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-                // Log the full text conversation history
-                textConversationHistory.current.forEach((msg, idx) => {
-                  const role = msg.role === 'user' ? '👤 USER' : '🤖 ASSISTANT';
-                  console.log(`\n${idx + 1}. ${role}:`);
-                  msg.content.forEach((content: any) => {
-                    if (content.type === 'input_text') {
-                      console.log(`   [Text Input] "${content.text}"`);
-                    } else if (content.type === 'output_text') {
-                      console.log(`   [Text Output] "${content.text}"`);
-                    }
-                  });
-                });
-
-                console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log(`ℹ️ Using explicit input field with ${textConversationHistory.current.length} messages (multi-turn conversation).`);
-                console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.groupEnd();
-
-                // Use explicit input array with full conversation history
-                responseEvent.response.input = textConversationHistory.current;
-              } else {
-                // Audio mode: use default conversation with logging
-                console.group('🤖 LLM Request Details (Voice Trigger - Audio Mode)');
-                console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log('Mode: AUDIO INPUT (default conversation)');
-                console.log('Trigger Type:', quickHintDetected ? 'Quick Hint' : 'Full Guidance');
-                console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log('\n📋 INSTRUCTIONS SENT TO LLM:');
-                console.log(instructions);
-                console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log('💬 CONVERSATION CONTEXT (Full Session History):');
-                console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-                // Get the current session history
-                const currentHistory = sessionHistory.current;
-                if (currentHistory.length > 0) {
-                  currentHistory.forEach((item, idx) => {
-                    if (item.type === 'message') {
-                      const role = item.role === 'user' ? '👤 USER' : '🤖 ASSISTANT';
-                      console.log(`\n${idx + 1}. ${role}:`);
-                      item.content.forEach((content) => {
-                        if (content.type === 'input_text') {
-                          console.log(`   [Text Input] ${content.text}`);
-                        } else if (content.type === 'output_text') {
-                          console.log(`   [Text Output] ${content.text}`);
-                        } else if (content.type === 'input_audio') {
-                          console.log(`   [Audio Input] "${content.transcript || '[No transcript]'}"`);
-                        } else if (content.type === 'output_audio') {
-                          console.log(`   [Audio Output] "${content.transcript || '[No transcript]'}"`);
-                        } else {
-                          console.log(`   [${content.type}]`, content);
-                        }
-                      });
-                    }
-                  });
-                } else {
-                  console.log('(No conversation history yet)');
-                }
-
-                console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log('ℹ️ The Realtime API will use the default conversation context shown above.');
-                console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.groupEnd();
-              }
-
-              // Create the response
-              session.current?.transport?.sendEvent(responseEvent);
-            }, 100);
-          }
+        const storedOutput = await loadOutputSettings();
+        if (storedOutput) {
+          const restored = { ...DEFAULT_OUTPUT, ...storedOutput };
+          setOutput(restored);
+          void controller.current?.setOutput(restored);
         }
-      }
-
-      // Track response lifecycle for debugging
-      if (event.type === 'response.created') {
-        console.log('📝 Response created by server');
-        setAgentState('generating');
-      }
-
-      if (event.type === 'response.output_item.added') {
-        console.log('📝 Response output item added');
-      }
 
-      // Handle audio output from agent responses
-      if (event.type === 'response.output_audio.delta') {
-        console.log('🔊 Audio delta received, size:', event.delta?.length);
-        setAgentState('speaking');
-        isPlayingAudio.current = true; // Mark that audio is playing
-        // @ts-ignore - audio delta structure
-        const audioData = event.delta;
-        if (audioData && player.current) {
-          // Decode base64 audio data
-          const binaryString = atob(audioData);
-          const bytes = new Uint8Array(binaryString.length);
-          for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-          }
-          const int16Array = new Int16Array(bytes.buffer);
-          player.current.add16BitPCM(int16Array, event.item_id);
+        const sessions = await listSessions();
+        setSavedSessions(sessions);
+        if (sessions.length > 0) {
+          setViewedSession((await loadSession(sessions[0].id)) ?? null);
         }
+      } catch (error) {
+        console.warn('⚠️ Could not restore saved state:', error);
+      } finally {
+        setSettingsLoaded(true);
       }
+    })();
+  }, []);
 
-      // Track when audio generation finishes (not playback)
-      if (event.type === 'response.output_audio.done') {
-        console.log('🔇 Audio generation complete (playback may continue)');
-        // Keep state as 'speaking' - audio is still playing
-      }
-
-      // Capture audio transcript when it completes
-      if (event.type === 'response.output_audio_transcript.done') {
-        console.log('🎯 Output audio transcript done event received!', event);
-        // @ts-ignore
-        const itemId = event.item_id;
-        // @ts-ignore
-        const transcript = event.transcript;
-        console.log(`  item_id: ${itemId}, transcript length: ${transcript?.length}`);
-        if (itemId && transcript) {
-          console.log(`💾 Caching transcript for ${itemId}: ${transcript.substring(0, 50)}...`);
-          transcriptCache.current.set(itemId, transcript);
-        }
-      }
+  // Keep a token warm so Connect doesn't wait on the server
+  useEffect(() => {
+    const provider = new TokenProvider(getToken);
+    tokens.current = provider;
+    provider.prefetch();
+    return () => provider.dispose();
+  }, []);
 
-      if (event.type === 'response.done') {
-        console.log('✅ Response generation complete - switching back to text-only mode');
-
-        // In text mode, capture the assistant's response transcript and add to history
-        if (settings.inputMode === 'text') {
-          // @ts-ignore
-          const response = event.response;
-          console.log('💬 [Text Mode] Response:', response);
-          // The response output contains the assistant's message
-          if (response?.output && response.output.length > 0) {
-            const assistantOutput = response.output[0];
-
-            // Extract text transcript from the response
-            let assistantText = '';
-
-            // Check for audio transcript first (since we generate audio responses)
-            if (assistantOutput.type === 'message') {
-              assistantOutput.content?.forEach((content: any) => {
-                if (content.type === 'output_audio' && content.transcript) {
-                  assistantText = content.transcript;
-                } else if (content.type === 'text') {
-                  assistantText = content.text;
-                }
-              });
-            }
-
-            if (assistantText) {
-              console.log(`💾 [Text Mode] Adding assistant response to history: "${assistantText.substring(0, 50)}..."`);
-              textConversationHistory.current.push({
-                type: 'message',
-                role: 'assistant',
-                content: [
-                  {
-                    type: 'output_text',
-                    text: assistantText,
-                  },
-                ],
-              });
-            }
-          }
-        }
+  // The token's baked-in session config carries the transcription language and voice
+  useEffect(() => {
+    tokens.current?.setRequest(tokenRequestFor(settings.transcriptionLanguage, settings.voice));
+    tokens.current?.prefetch();
+  }, [settings.transcriptionLanguage, settings.voice]);
 
-        // Clear accumulated data for next turn (both modes)
-        accumulatedTranscripts.current = [];
-        audioItemIds.current = [];
-
-        // Switch back to text-only mode (silent) for future responses
-        session.current?.transport?.sendEvent({
-          type: 'session.update',
-          session: {
-            type: 'realtime',
-            output_modalities: ['text'], // Back to text-only (silent)
-          },
-        });
-
-        // Keep audio playing flag true for a bit longer to allow playback to finish
-        setTimeout(() => {
-          console.log('🔇 Clearing audio playing flag');
-          isPlayingAudio.current = false;
-          setAgentState((currentState) => {
-            // Only transition if we haven't been interrupted
-            if (currentState === 'speaking') {
-              console.log('🔇 Audio playback complete - back to listening');
-              return 'listening';
-            }
-            return currentState;
-          });
-        }, 5000); // 5 second buffer for audio playback to complete
-      }
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    saveSettings(settings).catch((error) => console.warn('⚠️ Could not save settings:', error));
+  }, [settings, settingsLoaded]);
 
-      // Audio interruption is handled separately via the interruptAgent() function
-      // Don't auto-interrupt on transcription events
+  // One controller for the page's lifetime; settings are pushed in below
+  useEffect(() => {
+    const sessionController = new TriggerSessionController(settings, {
+      getToken: () => tokens.current!.take(),
     });
+    controller.current = sessionController;
 
-    // Listen to conversation history updates
-    session.current.on('history_updated', (history: RealtimeItem[]) => {
-      console.log('📜 History updated, total items:', history.length);
-
-      // Store history in ref for LLM context logging
-      sessionHistory.current = history;
-
-      const newTranscripts: TranscriptItem[] = [];
-      let latestUserText = '';
-
-      history.forEach((item) => {
-        if (item.type === 'message') {
-          item.content.forEach((content, contentIndex) => {
-            let text = '';
-            if (content.type === 'input_text') {
-              text = content.text;
-            } else if (content.type === 'output_text') {
-              text = content.text;
-            } else if (content.type === 'input_audio') {
-              // Check both transcript and audio properties
-              text = content.transcript || '';
-            } else if (content.type === 'output_audio') {
-              // For output_audio, use transcript if available, otherwise check cache by item ID
-              // The content doesn't have a stable ID, so we use the parent item's itemId
-              text = content.transcript || transcriptCache.current.get(item.itemId) || '';
-
-              // Debug: Log the full content structure
-              if (!text) {
-                console.log(`  Output audio content:`, JSON.stringify(content, null, 2));
-                console.log(`  Checking cache for item ID: ${item.itemId}, found: ${transcriptCache.current.has(item.itemId)}`);
-              }
-            }
-
-            if (text) {
-              console.log(`  Adding to transcript: [${item.role}] ${text.substring(0, 50)}...`);
-              newTranscripts.push({
-                id: `${item.itemId}-${content.type}-${contentIndex}`,
-                role: item.role === 'user' ? 'user' : 'assistant',
-                text,
-                timestamp: new Date(),
-              });
-
-              // Update conversation history for context
-              if (item.role === 'user') {
-                latestUserText = text;
-                setConversationHistory((prev) => [...prev, text].slice(-10)); // Keep last 10 messages
-              }
-            } else {
-              // Debug: log items without transcripts
-              console.log(`  Skipping item: role=${item.role}, content.type=${content.type}, has transcript=${!!content.transcript}`);
-            }
-          });
+    sessionController.on('stateChanged', (state) => {
+      setAgentState(state);
+      if (state !== 'reconnecting') setReconnectAttempt(0);
+    });
+    sessionController.on('reconnecting', (attempt) => setReconnectAttempt(attempt));
+    sessionController.on('connectionChanged', (connected) => {
+      setIsConnected(connected);
+      setIsListening(connected);
+      if (!connected) setInputLevel(null);
+      // Covers the supervisor giving up as well as a user disconnect
+      if (!connected) void finishLiveSession();
+    });
+    sessionController.on('hint', (hint) => {
+      setHints((previous) => {
+        const index = previous.findIndex((h) => h.id === hint.id);
+        if (index === -1) {
+          // New text responses take over the card; spoken-only ones don't
+          if (hint.delivery !== 'audio') setCardHintId(hint.id);
+          return [...previous, hint];
         }
+        return previous.map((h, i) => (i === index ? hint : h));
       });
-
-      setTranscripts(newTranscripts);
+    });
+    sessionController.on('transcript', (items) => {
+      setTranscripts(items);
+      updateLiveSession({ transcripts: items });
+    });
+    sessionController.on('textHistoryChanged', (history) => {
+      updateLiveSession({ textHistory: history });
+    });
+    // The log outlives the controller; detach it explicitly
+    const stopLogging = sessionController.on('transportEvent', (event) => {
+      eventLog.push(event);
+    });
+    sessionController.on('talkingChanged', setIsTalking);
+    sessionController.on('inputLevel', setInputLevel);
+    sessionController.on('inputSilence', setSilentSeconds);
+    sessionController.on('inputDevicesChanged', (devices, selected) => {
+      setInputDevices(devices);
+      setSelectedInputDevice(selected);
     });
 
-    // Listen for errors with comprehensive logging
-    session.current.on('error', (error: any) => {
-      // Suppress expected errors
-      const errorCode = error?.error?.error?.code;
+    return () => {
+      stopLogging();
+      sessionController.dispose();
+    };
+  }, []);
 
-      // Suppress expected "empty buffer" errors - these happen when VAD
-      // fires before any audio has been sent (e.g., at session start)
-      if (errorCode === 'input_audio_buffer_commit_empty') {
-        // Silently ignore - this is expected behavior at session start
-        return;
-      }
+  useEffect(() => {
+    controller.current?.updateSettings(settings);
+  }, [settings]);
 
-      // Suppress "response_cancel_not_active" - happens when we interrupt
-      // after response finished but audio is still playing
-      if (errorCode === 'response_cancel_not_active') {
-        console.log('ℹ️ Response already completed (audio was still playing)');
-        return;
-      }
+  // Global hotkeys while connected
+  useEffect(() => {
+    if (!isConnected) return;
+    return bindHotkeys(window, settings.hotkeys, {
+      onTrigger: (triggerId) =>
+        controller.current?.trigger(triggerId, { type: 'hotkey', combo: settings.hotkeys.triggers[triggerId] }),
+      onInterrupt: () => void interruptAgent(),
+      onMute: () => {
+        if (!settings.holdToTalk) void toggleMute();
+      },
+      ...(settings.holdToTalk && {
+        onHoldStart: () => void controller.current?.startTalking(),
+        onHoldEnd: () => void controller.current?.stopTalking(),
+      }),
+    });
+  }, [isConnected, isListening, settings]);
 
-      console.group('🔴 Session Error Captured');
-      console.error('Raw error object:', error);
-      console.error('Error type:', typeof error);
-      console.error('Error constructor:', error?.constructor?.name);
+  function updateLiveSession(update: Partial<Pick<StoredSession, 'transcripts' | 'textHistory'>>) {
+    const record = liveSession.current;
+    if (!record) return;
 
-      if (error instanceof Error) {
-        console.error('Error.message:', error.message);
-        console.error('Error.stack:', error.stack);
-        console.error('Error.name:', error.name);
-      }
+    Object.assign(record, update, { updatedAt: Date.now() });
+    record.title = sessionTitle(record.transcripts, record.createdAt);
 
-      try {
-        console.error('JSON.stringify:', JSON.stringify(error, null, 2));
-      } catch (e) {
-        console.error('Cannot stringify error:', e);
-      }
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => {
+      saveTimer.current = null;
+      void persistLiveSession();
+    }, SAVE_DEBOUNCE_MS);
+  }
 
-      console.error('Object.keys:', error ? Object.keys(error) : 'null/undefined');
-      console.error('Object.getOwnPropertyNames:', error ? Object.getOwnPropertyNames(error) : 'null/undefined');
-
-      // Try to extract all properties
-      if (error && typeof error === 'object') {
-        const allProps = Object.getOwnPropertyNames(error);
-        allProps.forEach(key => {
-          try {
-            console.error(`  ${key}:`, (error as any)[key]);
-          } catch (e) {
-            console.error(`  ${key}: [Cannot access]`);
-          }
-        });
-      }
+  async function persistLiveSession() {
+    if (!liveSession.current) return;
+    try {
+      await saveSession(liveSession.current);
+      setSavedSessions(await listSessions());
+    } catch (error) {
+      console.warn('⚠️ Could not save session:', error);
+    }
+  }
 
-      console.groupEnd();
-    });
+  async function refreshSessions() {
+    try {
+      setSavedSessions(await listSessions());
+    } catch (error) {
+      console.warn('⚠️ Could not list sessions:', error);
+    }
+  }
 
-    return () => {
-      session.current?.close();
-    };
-  }, [settings]);
+  async function openSession(id: string) {
+    try {
+      setViewedSession((await loadSession(id)) ?? null);
+    } catch (error) {
+      console.warn('⚠️ Could not open session:', error);
+    }
+  }
 
-  async function startRecording() {
-    await recorder.current?.record(async (data: any) => {
-      // Send audio to the session
-      if (session.current && data.mono) {
-        try {
-          await session.current.sendAudio(data.mono as unknown as ArrayBuffer);
-          // Log occasionally to confirm audio is flowing
-          if (Math.random() < 0.01) { // 1% of chunks
-            console.log('🎤 Sending audio chunk, size:', data.mono.byteLength);
-          }
-        } catch (error) {
-          console.error('Error sending audio:', error);
-        }
-      }
-    });
+  async function removeSession(id: string) {
+    try {
+      await deleteSession(id);
+      if (viewedSession?.id === id) setViewedSession(null);
+      await refreshSessions();
+    } catch (error) {
+      console.warn('⚠️ Could not delete session:', error);
+    }
+  }
+
+  async function finishLiveSession() {
+    if (!liveSession.current) return;
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    await persistLiveSession();
+    // Keep the finished session on screen (read-only, resumable)
+    setViewedSession(liveSession.current ? { ...liveSession.current } : null);
+    liveSession.current = null;
   }
 
-  async function connect() {
+  async function connect(resume?: StoredSession) {
     if (isConnected) {
-      console.log('Disconnecting...');
-      await session.current?.close();
-      await player.current?.interrupt();
-      await recorder.current?.end();
-      setIsConnected(false);
-      setIsListening(false);
+      await controller.current?.disconnect();
     } else {
-      console.log('Connecting to session...');
-      try {
-        await player.current?.connect();
-        console.log('Player connected');
-
-        const token = await getToken();
-        console.log('Got token, connecting session...');
-
-        await session.current?.connect({
-          apiKey: token,
-        });
-        console.log('Session connected');
+      // A second click would replace the live session the first is recording into
+      if (connecting.current) return;
+      connecting.current = true;
+
+      const now = Date.now();
+      liveSession.current = resume
+        ? { ...resume, settings, updatedAt: now }
+        : {
+            id: createSessionId(),
+            createdAt: now,
+            updatedAt: now,
+            title: sessionTitle([], now),
+            settings,
+            transcripts: [],
+            textHistory: [],
+          };
+      setViewedSession(null);
+      setTranscripts([]);
+      setHints([]);
+      setCardHintId(null);
+      setPinnedHintIds([]);
 
-        await recorder.current?.begin();
-        console.log('Recorder initialized');
-
-        await startRecording();
-        console.log('Recording started');
-
-        setIsConnected(true);
-        setIsListening(true);
-        console.log('✅ Connection complete');
+      try {
+        await controller.current?.connect(
+          resume
+            ? { resumeFrom: { transcripts: resume.transcripts, textHistory: resume.textHistory } }
+            : {}
+        );
       } catch (error) {
+        liveSession.current = null;
         console.group('❌ Connection Error');
         console.error('Error connecting to session:', error);
         if (error instanceof Error) {
@@ -663,205 +317,81 @@ Always be concise, helpful, and base responses on what the user was discussing.
           console.error('Stack:', error.stack);
         }
         console.groupEnd();
+      } finally {
+        connecting.current = false;
       }
     }
   }
 
   async function toggleMute() {
-    if (isListening) {
-      await recorder.current?.pause();
-      setIsListening(false);
-    } else {
-      await startRecording();
-      setIsListening(true);
-    }
+    await controller.current?.setMuted(isListening);
+    setIsListening(!isListening);
   }
 
-  // Trigger response via button - switch to audio mode and create response
-  async function triggerQuickHint() {
-    if (!session.current || !isConnected) return;
-    if (agentState === 'generating' || agentState === 'speaking') {
-      console.log(`⚠️ Agent is ${agentState}, ignoring button click`);
-      return;
+  async function refreshInputDevices() {
+    try {
+      setInputDevices((await controller.current?.listInputDevices()) ?? []);
+    } catch (error) {
+      console.warn('⚠️ Could not list input devices:', error);
     }
-
-    console.log('📤 Manual trigger: Quick Hint - switching to audio mode...');
-    setAgentState('generating');
-
-    // Switch to audio mode
-    session.current.transport?.sendEvent({
-      type: 'session.update',
-      session: {
-        type: 'realtime',
-        output_modalities: ['audio'], // Audio-only mode for voice response
-      },
-    });
-
-    // Create response
-    setTimeout(() => {
-      const instructions = `RESPOND IN ENGLISH ONLY. Provide a quick hint (around ${settings.quickHintDuration} seconds) based on the recent conversation context. Be brief and actionable, 1-2 sentences.`;
-
-      // Log the complete request context being sent to the LLM
-      console.group('🤖 LLM Request Details (Manual Quick Hint Button)');
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('\n📋 INSTRUCTIONS SENT TO LLM:');
-      console.log(instructions);
-      console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('💬 CONVERSATION CONTEXT (Full Session History):');
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-      // Get the current session history
-      const currentHistory = sessionHistory.current;
-      if (currentHistory.length > 0) {
-        currentHistory.forEach((item, idx) => {
-          if (item.type === 'message') {
-            const role = item.role === 'user' ? '👤 USER' : '🤖 ASSISTANT';
-            console.log(`\n${idx + 1}. ${role}:`);
-            item.content.forEach((content) => {
-              if (content.type === 'input_text') {
-                console.log(`   [Text Input] ${content.text}`);
-              } else if (content.type === 'output_text') {
-                console.log(`   [Text Output] ${content.text}`);
-              } else if (content.type === 'input_audio') {
-                console.log(`   [Audio Input] "${content.transcript || '[No transcript]'}"`);
-              } else if (content.type === 'output_audio') {
-                console.log(`   [Audio Output] "${content.transcript || '[No transcript]'}"`);
-              } else {
-                console.log(`   [${content.type}]`, content);
-              }
-            });
-          }
-        });
-      } else {
-        console.log('(No conversation history yet)');
-      }
-
-      console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('ℹ️ The Realtime API will use ALL messages above as context for generating the response.');
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.groupEnd();
-
-      session.current?.transport?.sendEvent({
-        type: 'response.create',
-        response: {
-          instructions,
-        },
-      });
-    }, 100);
   }
 
-  async function triggerFullGuidance() {
-    if (!session.current || !isConnected) return;
-    if (agentState === 'generating' || agentState === 'speaking') {
-      console.log(`⚠️ Agent is ${agentState}, ignoring button click`);
-      return;
+  async function selectInputDevice(deviceId: string | null) {
+    setSelectedInputDevice(deviceId);
+    try {
+      await controller.current?.setInputDevice(deviceId);
+    } catch (error) {
+      console.error('❌ Could not switch input device:', error);
     }
-
-    console.log('📤 Manual trigger: Full Guidance - switching to audio mode...');
-    setAgentState('generating');
-
-    // Switch to audio mode
-    session.current.transport?.sendEvent({
-      type: 'session.update',
-      session: {
-        type: 'realtime',
-        output_modalities: ['audio'], // Audio-only mode for voice response
-      },
-    });
-
-    // Create response
-    setTimeout(() => {
-      const instructions = `RESPOND IN ENGLISH ONLY. Provide full guidance (around ${settings.fullGuidanceDuration} seconds) based on the entire conversation context. Be comprehensive with steps and examples.`;
-
-      // Log the complete request context being sent to the LLM
-      console.group('🤖 LLM Request Details (Manual Full Guidance Button)');
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('\n📋 INSTRUCTIONS SENT TO LLM:');
-      console.log(instructions);
-      console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('💬 CONVERSATION CONTEXT (Full Session History):');
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-      // Get the current session history
-      const currentHistory = sessionHistory.current;
-      if (currentHistory.length > 0) {
-        currentHistory.forEach((item, idx) => {
-          if (item.type === 'message') {
-            const role = item.role === 'user' ? '👤 USER' : '🤖 ASSISTANT';
-            console.log(`\n${idx + 1}. ${role}:`);
-            item.content.forEach((content) => {
-              if (content.type === 'input_text') {
-                console.log(`   [Text Input] ${content.text}`);
-              } else if (content.type === 'output_text') {
-                console.log(`   [Text Output] ${content.text}`);
-              } else if (content.type === 'input_audio') {
-                console.log(`   [Audio Input] "${content.transcript || '[No transcript]'}"`);
-              } else if (content.type === 'output_audio') {
-                console.log(`   [Audio Output] "${content.transcript || '[No transcript]'}"`);
-              } else {
-                console.log(`   [${content.type}]`, content);
-              }
-            });
-          }
-        });
-      } else {
-        console.log('(No conversation history yet)');
-      }
-
-      console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('ℹ️ The Realtime API will use ALL messages above as context for generating the response.');
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.groupEnd();
-
-      session.current?.transport?.sendEvent({
-        type: 'response.create',
-        response: {
-          instructions,
-        },
-      });
-    }, 100);
   }
 
-  async function interruptAgent() {
-    if (!session.current || !isConnected) return;
-    if (!isPlayingAudio.current && agentState !== 'speaking' && agentState !== 'generating') return;
-
-    console.log(`⛔ Interrupting agent (was ${agentState}, audio playing: ${isPlayingAudio.current})...`);
-
-    // IMMEDIATELY clear audio playing flag and set state to listening
-    isPlayingAudio.current = false;
-    setAgentState('listening');
+  async function changeOutput(next: OutputSettings) {
+    setOutput(next);
+    saveOutputSettings(next).catch((error) => console.warn('⚠️ Could not save output settings:', error));
+    try {
+      await controller.current?.setOutput(next);
+    } catch (error) {
+      console.error('❌ Could not apply output settings:', error);
+    }
+  }
 
+  async function previewVoice(voice: Voice) {
+    setIsPreviewing(true);
     try {
-      // Stop audio playback
-      if (player.current) {
-        console.log('🔇 Calling player.interrupt()...');
-        await player.current.interrupt();
-        console.log('✅ player.interrupt() completed');
+      const result = await getVoicePreview(voice);
+      if (!result.ok) {
+        console.error(`❌ Voice preview failed: ${result.message} (${result.code})`);
+        return;
       }
+      await playPreview(result.audio, result.mimeType, output);
     } catch (error) {
-      console.error('❌ Error calling player.interrupt():', error);
+      console.error('❌ Could not play voice preview:', error);
+    } finally {
+      setIsPreviewing(false);
     }
+  }
 
-    // Cancel the current response
-    console.log('📤 Sending response.cancel...');
-    session.current.transport?.sendEvent({
-      type: 'response.cancel',
-    });
+  function togglePinnedHint(id: string) {
+    setPinnedHintIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  }
 
-    // Switch back to text-only mode
-    console.log('📤 Switching to text-only mode...');
-    session.current.transport?.sendEvent({
-      type: 'session.update',
-      session: {
-        type: 'realtime',
-        output_modalities: ['text'],
-      },
-    });
+  async function replayHint(id: string) {
+    try {
+      await controller.current?.replay(id);
+    } catch (error) {
+      console.error('❌ Could not replay hint:', error);
+    }
+  }
 
-    console.log('✅ Agent interrupted - back to listening');
+  async function interruptAgent() {
+    await controller.current?.interrupt();
   }
 
+  const displayedSession = !isConnected && viewedSession ? viewedSession : liveSession.current;
+  const displayedTranscripts = !isConnected && viewedSession ? viewedSession.transcripts : transcripts;
+  const cardHint = hints.find((hint) => hint.id === cardHintId);
+  const pinnedHints = hints.filter((hint) => pinnedHintIds.includes(hint.id));
+
   return (
     <div className="min-h-screen bg-gray-100 p-6">
       <div className="max-w-7xl mx-auto">
@@ -883,13 +413,19 @@ Always be concise, helpful, and base responses on what the user was discussing.
                 <div className="flex items-center gap-2">
                   <div
                     className={`w-3 h-3 rounded-full ${
-                      isConnected
+                      agentState === 'reconnecting'
+                        ? 'bg-yellow-500 animate-pulse'
+                        : isConnected
                         ? 'bg-green-500 animate-pulse'
                         : 'bg-gray-300'
                     }`}
                   />
                   <span className="text-sm font-medium">
-                    {isConnected ? 'Connected' : 'Disconnected'}
+                    {agentState === 'reconnecting' ? `Reconnecting (attempt ${reconnectAttempt})` :
+                     isConnected ? 'Connected' :
+                     agentState === 'connecting' ? 'Connecting...' :
+                     agentState === 'error' ? 'Connection failed' :
+                     'Disconnected'}
                   </span>
                 </div>
                 {isConnected && (
@@ -897,24 +433,37 @@ Always be concise, helpful, and base responses on what the user was discussing.
                     <div className="flex items-center gap-2">
                       <div
                         className={`w-3 h-3 rounded-full ${
-                          isListening ? 'bg-blue-500' : 'bg-gray-300'
+                          settings.holdToTalk
+                            ? isTalking ? 'bg-blue-500 animate-pulse' : 'bg-gray-300'
+                            : isListening ? 'bg-blue-500' : 'bg-gray-300'
                         }`}
                       />
                       <span className="text-sm">
-                        {isListening ? 'Listening' : 'Muted'}
+                        {settings.holdToTalk
+                          ? isTalking ? 'Talking' : `Hold ${settings.hotkeys.holdToTalk || 'the button'} to talk`
+                          : isListening ? 'Listening' : 'Muted'}
                       </span>
                     </div>
+                    {silentSeconds > 0 && (
+                      <span className="text-xs font-medium px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+                        ⚠️ No audio detected for {silentSeconds}s
+                      </span>
+                    )}
                     <div className="flex items-center gap-2">
                       <div
                         className={`w-3 h-3 rounded-full ${
-                          agentState === 'speaking' ? 'bg-purple-500 animate-pulse' :
+                          agentState === 'speaking' || agentState === 'draining' ? 'bg-purple-500 animate-pulse' :
                           agentState === 'generating' ? 'bg-yellow-500 animate-pulse' :
+                          agentState === 'interrupted' || agentState === 'error' ? 'bg-red-500' :
                           'bg-gray-300'
                         }`}
                       />
                       <span className="text-sm">
                         {agentState === 'speaking' ? 'Speaking' :
+                         agentState === 'draining' ? 'Finishing' :
                          agentState === 'generating' ? 'Generating' :
+                         agentState === 'interrupted' ? 'Interrupting' :
+                         agentState === 'error' ? 'Error' :
                          'Silent'}
                       </span>
                     </div>
@@ -922,28 +471,72 @@ Always be concise, helpful, and base responses on what the user was discussing.
                 )}
               </div>
               <div className="flex gap-2">
-                {isConnected && (
+                {isConnected && settings.holdToTalk && (
+                  <Button
+                    onPointerDown={() => void controller.current?.startTalking()}
+                    onPointerUp={() => void controller.current?.stopTalking()}
+                    onPointerLeave={() => void controller.current?.stopTalking()}
+                    variant={isTalking ? 'primary' : 'outline'}
+                    size="sm"
+                  >
+                    🎙️ Hold to Talk
+                    <HotkeyHint combo={settings.hotkeys.holdToTalk} />
+                  </Button>
+                )}
+                {isConnected && !settings.holdToTalk && (
                   <Button
                     onClick={toggleMute}
                     variant={isListening ? 'default' : 'outline'}
                     size="sm"
                   >
                     {isListening ? 'Mute' : 'Unmute'}
+                    <HotkeyHint combo={settings.hotkeys.mute} />
                   </Button>
                 )}
                 <Button
-                  onClick={connect}
+                  onClick={() => connect()}
                   variant={isConnected ? 'danger' : 'primary'}
+                  disabled={agentState === 'connecting'}
                 >
                   {isConnected ? 'Disconnect' : 'Connect'}
                 </Button>
               </div>
             </div>
 
+            {/* Text hints, shown above the transcript while connected */}
+            {isConnected && cardHint && <HintCard hint={cardHint} onDismiss={() => setCardHintId(null)} />}
+
             {/* Transcript Display */}
             <div className="bg-white rounded-lg border border-gray-200 p-4 h-[500px] flex flex-col">
-              <h2 className="text-lg font-semibold mb-4">Live Transcript</h2>
-              <TranscriptDisplay items={transcripts} />
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold">Live Transcript</h2>
+                <ExportMenu
+                  items={displayedTranscripts}
+                  title={displayedSession?.title ?? 'Transcript'}
+                  sessionStart={displayedSession ? new Date(displayedSession.createdAt) : undefined}
+                />
+              </div>
+              {!isConnected && viewedSession && (
+                <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-md flex items-center justify-between gap-3">
+                  <p className="text-sm text-blue-800 truncate">
+                    Viewing saved session: {viewedSession.title}
+                  </p>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      onClick={() => connect(viewedSession)}
+                      variant="primary"
+                      size="sm"
+                      disabled={agentState === 'connecting'}
+                    >
+                      Resume
+                    </Button>
+                    <Button onClick={() => setViewedSession(null)} variant="outline" size="sm">
+                      Close
+                    </Button>
+                  </div>
+                </div>
+              )}
+              <TranscriptDisplay items={displayedTranscripts} />
             </div>
 
             {/* Manual Trigger Buttons */}
@@ -951,65 +544,85 @@ Always be concise, helpful, and base responses on what the user was discussing.
               <h3 className="text-sm font-semibold mb-3 text-gray-700">
                 Manual Triggers (Alternative to voice commands)
               </h3>
-              <div className="flex gap-3">
-                <Button
-                  onClick={triggerQuickHint}
-                  disabled={!isConnected || agentState === 'generating' || agentState === 'speaking'}
-                  variant="success"
-                  className="flex-1"
-                >
-                  🚀 Quick Hint ({settings.quickHintDuration}s)
-                </Button>
-                <Button
-                  onClick={triggerFullGuidance}
-                  disabled={!isConnected || agentState === 'generating' || agentState === 'speaking'}
-                  variant="warning"
-                  className="flex-1"
-                >
-                  💡 Full Guidance ({settings.fullGuidanceDuration}s)
-                </Button>
+              <div className="flex flex-wrap gap-3">
+                {settings.triggers.map((trigger, i) => (
+                  <Button
+                    key={trigger.id}
+                    onClick={() => controller.current?.trigger(trigger.id)}
+                    disabled={!isConnected || agentState !== 'listening'}
+                    variant={TRIGGER_BUTTON_VARIANTS[i % TRIGGER_BUTTON_VARIANTS.length]}
+                    className="flex-1"
+                  >
+                    {trigger.icon ? `${trigger.icon} ` : ''}{trigger.label} ({trigger.duration}s)
+                    <HotkeyHint combo={settings.hotkeys.triggers[trigger.id]} />
+                  </Button>
+                ))}
                 <Button
                   onClick={interruptAgent}
-                  disabled={!isConnected || (agentState !== 'generating' && agentState !== 'speaking')}
+                  disabled={!isConnected || !['generating', 'speaking', 'draining'].includes(agentState)}
                   variant="danger"
                 >
                   ⛔ Interrupt
+                  <HotkeyHint combo={settings.hotkeys.interrupt} />
                 </Button>
               </div>
               <p className="text-xs text-gray-500 mt-2">
-                Or say the trigger phrases: "{settings.quickHintPhrase}" or "
-                {settings.fullGuidancePhrase}"
+                Or say the trigger phrases:{' '}
+                {settings.triggers
+                  .flatMap((t) => activePhrases(t, settings.transcriptionLanguage))
+                  .map((phrase) => `"${phrase}"`)
+                  .join(', ')}
               </p>
             </div>
           </div>
 
           {/* Settings Sidebar */}
           <div className="space-y-4">
+            <MicrophonePanel
+              devices={inputDevices}
+              selectedId={selectedInputDevice}
+              onSelect={selectInputDevice}
+              onRefresh={refreshInputDevices}
+              level={isConnected && (settings.holdToTalk ? isTalking : isListening) ? inputLevel : null}
+            />
+
+            <HintPanel
+              hints={hints}
+              pinnedIds={pinnedHintIds}
+              onTogglePin={togglePinnedHint}
+              onReplay={replayHint}
+            />
+
             <SettingsPanel
               settings={settings}
               onSettingsChange={setSettings}
               isConnected={isConnected}
+              output={output}
+              onOutputChange={changeOutput}
+              onPreviewVoice={previewVoice}
+              isPreviewing={isPreviewing}
             />
 
-            {/* Event Log */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4">
-              <h3 className="text-sm font-semibold mb-3 text-gray-700">
-                Event Log
-              </h3>
-              <div className="max-h-64 overflow-y-auto text-xs space-y-1">
-                {events.slice(-10).reverse().map((event, i) => (
-                  <div
-                    key={i}
-                    className="p-2 bg-gray-50 rounded border border-gray-100"
-                  >
-                    <div className="font-mono text-blue-600">{event.type}</div>
-                  </div>
-                ))}
-              </div>
-            </div>
+            <ReferencePanel
+              documents={settings.references}
+              onChange={(references) => setSettings({ ...settings, references })}
+              disabled={isConnected}
+            />
+
+            <SessionPicker
+              sessions={savedSessions}
+              selectedId={viewedSession?.id ?? null}
+              onSelect={openSession}
+              onDelete={removeSession}
+              disabled={isConnected}
+            />
+
+            <EventInspector log={eventLog} />
           </div>
         </div>
       </div>
+
+      <PinnedHints hints={pinnedHints} onUnpin={togglePinnedHint} />
     </div>
   );
 }
@@ -0,0 +1,66 @@
+// In-memory sliding-window rate limiter. State lives in the server process,
+// so limits are per instance; good enough to stop one visitor minting
+// tokens in a loop.
+
+import { headers } from 'next/headers';
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(
+    private readonly limit: number,
+    readonly windowMs: number
+  ) {}
+
+  check(key: string, now = Date.now()): RateLimitResult {
+    const recent = (this.hits.get(key) ?? []).filter((at) => now - at < this.windowMs);
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return { allowed: false, retryAfterMs: this.windowMs - (now - recent[0]) };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    this.prune(now);
+    return { allowed: true };
+  }
+
+  // Drop clients with no hits in the window so the map doesn't grow forever
+  private prune(now: number) {
+    this.hits.forEach((times, key) => {
+      if (times.every((at) => now - at >= this.windowMs)) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Limiter key for the current request: the address the nearest proxy saw.
+ * That proxy appends it to X-Forwarded-For, so it's the rightmost entry;
+ * everything to its left was sent by the client and can be forged. Null
+ * when there are no proxy headers (only expected from the dev server).
+ */
+export async function clientKey(): Promise<string | null> {
+  const requestHeaders = await headers();
+  const forwarded = requestHeaders.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwarded || requestHeaders.get('x-real-ip')?.trim() || null;
+}
+
+/**
+ * Rate-limit the current request by client address. Without one, local
+ * development shares a single bucket; in production the request is refused,
+ * since one shared bucket would let any visitor lock out everyone.
+ */
+export async function checkClient(limiter: RateLimiter): Promise<RateLimitResult> {
+  const key = await clientKey();
+  if (key) return limiter.check(key);
+
+  if (process.env.NODE_ENV !== 'production') return limiter.check('local');
+
+  console.warn('⚠️ No client address in proxy headers; refusing request');
+  return { allowed: false, retryAfterMs: limiter.windowMs };
+}
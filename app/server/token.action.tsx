@@ -1,27 +1,70 @@
 'use server';
 
-export async function getToken() {
+import { checkClient, RateLimiter } from './rateLimiter';
+import {
+  TokenRequest,
+  TokenResult,
+  buildSessionConfig,
+  findDisallowedField,
+  tokenRequestSchema,
+} from './tokenConfig';
+
+// Per client: a connect plus a few reconnects, not a loop
+const limiter = new RateLimiter(10, 60_000);
+
+const TOKEN_TTL_SECONDS = 600;
+
+export async function getToken(request: TokenRequest): Promise<TokenResult> {
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) {
-    throw new Error('Missing OPENAI_API_KEY environment variable.');
+    return { ok: false, code: 'missing_api_key', message: 'Missing OPENAI_API_KEY environment variable.' };
   }
 
-  const response = await fetch(
-    'https://api.openai.com/v1/realtime/client_secrets',
-    {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        session: {
-          type: 'realtime',
-          model: 'gpt-realtime',
+  const parsed = tokenRequestSchema.safeParse(request);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      code: 'invalid_request',
+      message: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'request'}: ${issue.message}`).join('; '),
+    };
+  }
+
+  const disallowed = findDisallowedField(parsed.data);
+  if (disallowed) {
+    return { ok: false, code: 'not_allowed', message: `Value for ${disallowed} is not allowed.` };
+  }
+
+  const limit = await checkClient(limiter);
+  if (!limit.allowed) {
+    return {
+      ok: false,
+      code: 'rate_limited',
+      message: 'Too many token requests, try again shortly.',
+      retryAfterMs: limit.retryAfterMs,
+    };
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(
+      'https://api.openai.com/v1/realtime/client_secrets',
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
         },
-      }),
-    },
-  );
+        body: JSON.stringify({
+          expires_after: { anchor: 'created_at', seconds: TOKEN_TTL_SECONDS },
+          session: buildSessionConfig(parsed.data),
+        }),
+      },
+    );
+  } catch (error) {
+    // Network failure (DNS, reset, timeout): still a typed result, not a throw
+    console.error('Failed to reach the client secrets endpoint:', error);
+    return { ok: false, code: 'upstream_error', message: 'Could not reach the OpenAI API.' };
+  }
 
   if (!response.ok) {
     let detail = '';
@@ -31,9 +74,13 @@ export async function getToken() {
     } catch {
       detail = await response.text();
     }
-    throw new Error(
-      `Failed to create ephemeral client secret: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`,
-    );
+    // Upstream detail stays in the server log
+    console.error(`Failed to create ephemeral client secret: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`);
+    return {
+      ok: false,
+      code: 'upstream_error',
+      message: `Failed to create ephemeral client secret (${response.status}).`,
+    };
   }
 
   const clientSecret: {
@@ -42,5 +89,5 @@ export async function getToken() {
     session: Record<string, unknown>;
   } = await response.json();
 
-  return clientSecret.value;
+  return { ok: true, value: clientSecret.value, expiresAt: clientSecret.expires_at };
 }
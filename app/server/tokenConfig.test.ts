@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { findDisallowedField, TokenRequest } from './tokenConfig';
+
+const REQUEST: TokenRequest = {
+  model: 'gpt-realtime',
+  voice: 'marin',
+  transcription: { model: 'gpt-4o-mini-transcribe', language: 'en' },
+  instructionsPreset: 'trigger-assistant',
+};
+
+describe('findDisallowedField', () => {
+  it('accepts allowlisted values', () => {
+    expect(findDisallowedField(REQUEST)).toBeNull();
+    expect(findDisallowedField({ ...REQUEST, transcription: { model: 'whisper-1' } })).toBeNull();
+  });
+
+  it('names the first field off its allowlist', () => {
+    expect(findDisallowedField({ ...REQUEST, model: 'gpt-4o' })).toBe('model');
+    expect(findDisallowedField({ ...REQUEST, transcription: { model: 'whisper-1', language: 'xx' } })).toBe(
+      'transcription.language'
+    );
+  });
+
+  it('rejects presets inherited from the prototype', () => {
+    expect(findDisallowedField({ ...REQUEST, instructionsPreset: 'toString' })).toBe('instructionsPreset');
+    expect(findDisallowedField({ ...REQUEST, instructionsPreset: '__proto__' })).toBe('instructionsPreset');
+  });
+});
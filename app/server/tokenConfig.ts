@@ -0,0 +1,114 @@
+// Request schema, allowlists and session presets for the token action.
+//
+// Kept out of token.action.tsx because a 'use server' module may only export
+// async functions. Only types from here should be imported by client code.
+
+import { z } from 'zod';
+
+export const ALLOWED_MODELS = ['gpt-realtime', 'gpt-realtime-mini'] as const;
+export const ALLOWED_VOICES = [
+  'alloy', 'ash', 'ballad', 'cedar', 'coral', 'echo', 'marin', 'sage', 'shimmer', 'verse',
+] as const;
+export const ALLOWED_TRANSCRIPTION_MODELS = [
+  'gpt-4o-mini-transcribe', 'gpt-4o-transcribe', 'whisper-1',
+] as const;
+export const ALLOWED_LANGUAGES = [
+  'en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'ja', 'ko', 'zh', 'hi', 'ar', 'ru',
+] as const;
+
+// Baseline session instructions; the client's agent instructions replace
+// them once the session is configured
+export const INSTRUCTION_PRESETS = {
+  'trigger-assistant':
+    'You are a helpful voice assistant. Stay silent unless a response is explicitly requested, then be concise and base it on the recent conversation.',
+  'meeting-notes':
+    'You are a meeting assistant. Stay silent unless a response is explicitly requested, then summarize decisions and open questions from the conversation.',
+} as const;
+
+export type InstructionPreset = keyof typeof INSTRUCTION_PRESETS;
+
+// Shape only; values are checked against the allowlists separately so a bad
+// value gets 'not_allowed' rather than 'invalid_request'
+export const tokenRequestSchema = z
+  .object({
+    model: z.string(),
+    voice: z.string(),
+    transcription: z
+      .object({
+        model: z.string(),
+        language: z.string().optional(), // Omitted = auto-detect
+      })
+      .strict(),
+    instructionsPreset: z.string(),
+  })
+  .strict();
+
+export type TokenRequest = z.infer<typeof tokenRequestSchema>;
+
+export type TokenErrorCode =
+  | 'missing_api_key'
+  | 'invalid_request'
+  | 'not_allowed'
+  | 'rate_limited'
+  | 'upstream_error';
+
+export type TokenResult =
+  | { ok: true; value: string; expiresAt: number } // expiresAt: Unix seconds
+  | { ok: false; code: TokenErrorCode; message: string; retryAfterMs?: number };
+
+function isAllowed<T extends string>(list: readonly T[], value: string): value is T {
+  return (list as readonly string[]).includes(value);
+}
+
+// Voice previews (voicePreview.action.tsx) are short text-to-speech clips;
+// they reuse the token action's error codes and voice allowlist
+export const VOICE_PREVIEW_MODEL = 'gpt-4o-mini-tts';
+export const VOICE_PREVIEW_TEXT = "Here's a quick hint: summarize the decision so far, then ask who owns the next step.";
+
+export type VoicePreviewResult =
+  | { ok: true; audio: string; mimeType: string } // audio: base64
+  | { ok: false; code: TokenErrorCode; message: string; retryAfterMs?: number };
+
+export function isAllowedVoice(voice: string): boolean {
+  return isAllowed(ALLOWED_VOICES, voice);
+}
+
+/** Name of the first field that is not on its allowlist, or null. */
+export function findDisallowedField(request: TokenRequest): string | null {
+  if (!isAllowed(ALLOWED_MODELS, request.model)) return 'model';
+  if (!isAllowed(ALLOWED_VOICES, request.voice)) return 'voice';
+  if (!isAllowed(ALLOWED_TRANSCRIPTION_MODELS, request.transcription.model)) return 'transcription.model';
+  if (request.transcription.language !== undefined && !isAllowed(ALLOWED_LANGUAGES, request.transcription.language)) {
+    return 'transcription.language';
+  }
+  // Own keys only: `in` would also accept 'toString' and friends
+  if (!Object.hasOwn(INSTRUCTION_PRESETS, request.instructionsPreset)) return 'instructionsPreset';
+  return null;
+}
+
+/** Full session config baked into the client secret (mirrors the controller's session.update). */
+export function buildSessionConfig(request: TokenRequest) {
+  return {
+    type: 'realtime',
+    model: request.model,
+    instructions: INSTRUCTION_PRESETS[request.instructionsPreset as InstructionPreset],
+    output_modalities: ['text'], // Silent until a trigger asks for audio
+    audio: {
+      input: {
+        transcription: {
+          model: request.transcription.model,
+          ...(request.transcription.language ? { language: request.transcription.language } : {}),
+        },
+        turn_detection: {
+          type: 'semantic_vad',
+          eagerness: 'low',
+          create_response: false,
+          interrupt_response: false,
+        },
+      },
+      output: {
+        voice: request.voice,
+      },
+    },
+  };
+}
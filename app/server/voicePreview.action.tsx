@@ -0,0 +1,63 @@
+'use server';
+
+import { checkClient, RateLimiter } from './rateLimiter';
+import {
+  VOICE_PREVIEW_MODEL,
+  VOICE_PREVIEW_TEXT,
+  VoicePreviewResult,
+  isAllowedVoice,
+} from './tokenConfig';
+
+// Previews are clicked by hand; this only stops a runaway loop
+const limiter = new RateLimiter(20, 60_000);
+
+export async function getVoicePreview(voice: string): Promise<VoicePreviewResult> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    return { ok: false, code: 'missing_api_key', message: 'Missing OPENAI_API_KEY environment variable.' };
+  }
+
+  if (typeof voice !== 'string') {
+    return { ok: false, code: 'invalid_request', message: 'voice: Expected string' };
+  }
+  if (!isAllowedVoice(voice)) {
+    return { ok: false, code: 'not_allowed', message: 'Value for voice is not allowed.' };
+  }
+
+  const limit = await checkClient(limiter);
+  if (!limit.allowed) {
+    return {
+      ok: false,
+      code: 'rate_limited',
+      message: 'Too many preview requests, try again shortly.',
+      retryAfterMs: limit.retryAfterMs,
+    };
+  }
+
+  const response = await fetch('https://api.openai.com/v1/audio/speech', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: VOICE_PREVIEW_MODEL,
+      voice,
+      input: VOICE_PREVIEW_TEXT,
+      response_format: 'mp3',
+    }),
+  });
+
+  if (!response.ok) {
+    // Upstream detail stays in the server log
+    console.error(`Failed to create voice preview: ${response.status} ${response.statusText} - ${await response.text()}`);
+    return {
+      ok: false,
+      code: 'upstream_error',
+      message: `Failed to create voice preview (${response.status}).`,
+    };
+  }
+
+  const audio = Buffer.from(await response.arrayBuffer()).toString('base64');
+  return { ok: true, audio, mimeType: 'audio/mpeg' };
+}
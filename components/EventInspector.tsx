@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from './ui/Button';
+import { downloadNdjson, EventFilter, EventLog, EventRecord, matchesFilter } from '@/lib/eventLog';
+
+type EventInspectorProps = {
+  log: EventLog;
+};
+
+// Consecutive display rows: single events, or every event of one response
+type Entry =
+  | { kind: 'event'; record: EventRecord }
+  | { kind: 'response'; responseId: string; records: EventRecord[] };
+
+// Groups sit where their response's first event is
+function groupByResponse(records: EventRecord[]): Entry[] {
+  const entries: Entry[] = [];
+  const groups = new Map<string, EventRecord[]>();
+  records.forEach((record) => {
+    if (!record.responseId) {
+      entries.push({ kind: 'event', record });
+      return;
+    }
+    const group = groups.get(record.responseId);
+    if (group) {
+      group.push(record);
+      return;
+    }
+    const created = [record];
+    groups.set(record.responseId, created);
+    entries.push({ kind: 'response', responseId: record.responseId, records: created });
+  });
+  return entries;
+}
+
+function formatTime(at: number): string {
+  const date = new Date(at);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+}
+
+function EventRow({ record }: { record: EventRecord }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="p-2 bg-gray-50 rounded border border-gray-100">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between gap-2 text-left"
+      >
+        <span className="font-mono text-blue-600 truncate">
+          {open ? '▾' : '▸'} {record.type}
+        </span>
+        <span className="text-gray-400 shrink-0">{formatTime(record.at)}</span>
+      </button>
+      {open && (
+        // Previews are parsed only when opened; they are stored compact
+        <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap break-all text-[10px] text-gray-700">
+          {JSON.stringify(JSON.parse(record.preview), null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export function EventInspector({ log }: EventInspectorProps) {
+  const [records, setRecords] = useState<EventRecord[]>([]);
+  const [paused, setPaused] = useState(log.isPaused);
+  const [filter, setFilter] = useState<EventFilter>({ type: '', search: '', hideAudioDeltas: true });
+  const [grouped, setGrouped] = useState(true);
+
+  useEffect(() => {
+    const refresh = () => {
+      setRecords(log.records);
+      setPaused(log.isPaused);
+    };
+    refresh();
+    return log.on('changed', refresh);
+  }, [log]);
+
+  const types = useMemo(() => [...new Set(records.map((record) => record.type))].sort(), [records]);
+  const visible = useMemo(() => records.filter((record) => matchesFilter(record, filter)), [records, filter]);
+  // Newest first
+  const entries = useMemo(
+    () => (grouped ? groupByResponse(visible) : visible.map((record) => ({ kind: 'event' as const, record }))).reverse(),
+    [visible, grouped]
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-700">
+          Event Inspector
+        </h3>
+        <div className="flex gap-1">
+          <Button onClick={() => log.setPaused(!paused)} variant="ghost" size="sm">
+            {paused ? '▶ Resume' : '⏸ Pause'}
+          </Button>
+          <Button onClick={() => downloadNdjson(visible)} disabled={visible.length === 0} variant="ghost" size="sm">
+            ⬇ NDJSON
+          </Button>
+          <Button onClick={() => log.clear()} variant="ghost" size="sm">
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          list="event-types"
+          value={filter.type}
+          onChange={(e) => setFilter({ ...filter, type: e.target.value.trim() })}
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Type or prefix"
+        />
+        <datalist id="event-types">
+          {types.map((type) => (
+            <option key={type} value={type} />
+          ))}
+        </datalist>
+        <input
+          type="search"
+          value={filter.search}
+          onChange={(e) => setFilter({ ...filter, search: e.target.value })}
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Search payloads"
+        />
+      </div>
+      <div className="flex gap-4 text-xs text-gray-600">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={filter.hideAudioDeltas}
+            onChange={(e) => setFilter({ ...filter, hideAudioDeltas: e.target.checked })}
+            className="mr-1"
+          />
+          Hide audio deltas
+        </label>
+        <label className="flex items-center">
+          <input type="checkbox" checked={grouped} onChange={(e) => setGrouped(e.target.checked)} className="mr-1" />
+          Group by response
+        </label>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto text-xs space-y-1">
+        {entries.map((entry) =>
+          entry.kind === 'event' ? (
+            <EventRow key={entry.record.seq} record={entry.record} />
+          ) : (
+            <details key={entry.responseId} className="rounded border border-blue-100 bg-blue-50/50 p-1">
+              <summary className="cursor-pointer px-1 font-mono text-gray-700 truncate">
+                {entry.responseId} · {entry.records.length} events · {entry.records[entry.records.length - 1].type}
+              </summary>
+              <div className="mt-1 space-y-1">
+                {entry.records.map((record) => (
+                  <EventRow key={record.seq} record={record} />
+                ))}
+              </div>
+            </details>
+          )
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {visible.length} of {records.length} held (last {log.capacity})
+        {log.dropped > 0 && ` · ${log.dropped} older or paused events not kept`}
+        {paused && ' · paused'}
+      </p>
+    </div>
+  );
+}
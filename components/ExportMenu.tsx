@@ -0,0 +1,47 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './ui/Button';
+import type { TranscriptItem } from '@/lib/transcript';
+import { EXPORT_FORMATS, ExportFormat, downloadTranscript } from '@/lib/transcriptExport';
+
+type ExportMenuProps = {
+  items: TranscriptItem[];
+  title: string;
+  sessionStart?: Date;
+};
+
+export function ExportMenu({ items, title, sessionStart }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadTranscript(items, format, { title, sessionStart });
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={items.length === 0}
+        variant="outline"
+        size="sm"
+      >
+        Export ▾
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-44 bg-white border border-gray-200 rounded-md shadow-lg z-10 py-1">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 cursor-pointer"
+            >
+              {EXPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
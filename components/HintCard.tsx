@@ -0,0 +1,36 @@
+'use client';
+
+import type { Hint } from '@/lib/hints';
+
+type HintCardProps = {
+  hint: Hint;
+  onDismiss: () => void;
+};
+
+export function HintCard({ hint, onDismiss }: HintCardProps) {
+  return (
+    <div className="bg-amber-50 border-2 border-amber-300 rounded-lg p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-xs font-semibold uppercase tracking-wide text-amber-800">
+          {hint.icon ? `${hint.icon} ` : ''}{hint.label}
+          {hint.delivery === 'text' && ' · silent'}
+          {hint.isLive && <span className="ml-2 normal-case font-normal animate-pulse">writing…</span>}
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-amber-700 hover:text-amber-900 text-sm"
+          aria-label="Dismiss hint"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="text-lg leading-snug text-gray-900 whitespace-pre-wrap break-words">
+        {hint.text || '…'}
+      </p>
+      <div className="text-xs text-amber-700/70 mt-2">
+        {hint.timestamp.toLocaleTimeString()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './ui/Button';
+import type { Hint } from '@/lib/hints';
+
+type HintPanelProps = {
+  hints: Hint[]; // Oldest first
+  pinnedIds: string[];
+  onTogglePin: (id: string) => void;
+  onReplay: (id: string) => void;
+};
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function describeSource(hint: Hint): string {
+  switch (hint.source) {
+    case 'voice':
+      return `said "${hint.phrase ?? ''}"`;
+    case 'hotkey':
+      return `hotkey ${hint.phrase ?? ''}`;
+    case 'button':
+      return 'button';
+  }
+}
+
+// Every triggered response of the session, newest first, with how it was
+// fired and how it performed
+export function HintPanel({ hints, pinnedIds, onTogglePin, onReplay }: HintPanelProps) {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const copy = async (hint: Hint) => {
+    try {
+      await navigator.clipboard.writeText(hint.text);
+      setCopiedId(hint.id);
+      setTimeout(() => setCopiedId((id) => (id === hint.id ? null : id)), 1500);
+    } catch (error) {
+      console.warn('⚠️ Could not copy hint:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <h3 className="text-sm font-semibold mb-3 text-gray-700">
+        Hints
+      </h3>
+      {hints.length === 0 ? (
+        <p className="text-xs text-gray-400">Triggered responses will be listed here.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {[...hints].reverse().map((hint) => {
+            const pinned = pinnedIds.includes(hint.id);
+            return (
+              <div
+                key={hint.id}
+                className={`p-2 rounded border text-xs ${
+                  pinned ? 'bg-amber-50 border-amber-200' : 'bg-gray-50 border-gray-100'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-800">
+                    {hint.icon ? `${hint.icon} ` : ''}{hint.label}
+                    {hint.custom && <span className="ml-1 font-normal text-gray-400">(custom)</span>}
+                  </span>
+                  <span className="text-gray-400">{hint.timestamp.toLocaleTimeString()}</span>
+                </div>
+                <div className="text-gray-500">
+                  {describeSource(hint)} · {hint.contextTurns} turns, ~{hint.contextTokens} tokens
+                  {hint.latencyMs !== undefined && ` · ${formatSeconds(hint.latencyMs)} latency`}
+                  {hint.durationMs !== undefined && ` · played ${formatSeconds(hint.durationMs)}`}
+                  {hint.limited && ' (cut at limit)'}
+                </div>
+                <p className={`mt-1 text-gray-800 whitespace-pre-wrap break-words ${hint.isLive ? 'animate-pulse' : ''}`}>
+                  {hint.text || '…'}
+                </p>
+                <div className="flex gap-1 mt-1">
+                  <Button
+                    onClick={() => onReplay(hint.id)}
+                    disabled={!hint.replayable}
+                    variant="ghost"
+                    size="sm"
+                    title={hint.replayable ? 'Play the response again' : 'No audio to replay (text only or WebRTC)'}
+                  >
+                    ▶ Replay
+                  </Button>
+                  <Button onClick={() => copy(hint)} disabled={!hint.text} variant="ghost" size="sm">
+                    {copiedId === hint.id ? '✓ Copied' : '⧉ Copy'}
+                  </Button>
+                  <Button onClick={() => onTogglePin(hint.id)} variant="ghost" size="sm">
+                    {pinned ? '📌 Unpin' : '📌 Pin'}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
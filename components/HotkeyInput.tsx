@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { hotkeyFromEvent } from '@/lib/hotkeys';
+
+type HotkeyInputProps = {
+  label: string;
+  value: string;
+  onChange: (combo: string) => void;
+  disabled: boolean;
+  conflict?: boolean;
+};
+
+// Focus the field and press a key combo to bind it; ✕ clears the binding
+export function HotkeyInput({ label, value, onChange, disabled, conflict }: HotkeyInputProps) {
+  const [capturing, setCapturing] = useState(false);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="flex-1 text-sm text-gray-700 truncate">{label}</span>
+      <button
+        type="button"
+        onFocus={() => setCapturing(true)}
+        onBlur={() => setCapturing(false)}
+        onKeyDown={(e) => {
+          const combo = hotkeyFromEvent(e.nativeEvent);
+          if (!combo || combo === 'Tab' || combo === 'Shift+Tab') return;
+          e.preventDefault();
+          onChange(combo);
+          e.currentTarget.blur();
+        }}
+        disabled={disabled}
+        className={`w-32 px-2 py-1 text-xs font-mono border rounded-md text-center focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+          conflict ? 'border-red-400 text-red-700' : 'border-gray-300 text-gray-800'
+        }`}
+        aria-label={`Hotkey for ${label}`}
+      >
+        {capturing ? 'Press keys…' : value || 'None'}
+      </button>
+      <button
+        type="button"
+        onClick={() => onChange('')}
+        disabled={disabled || !value}
+        className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30"
+        aria-label={`Clear hotkey for ${label}`}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import type { InputDevice } from '@/lib/inputDevices';
+import { InputLevel, meterPosition, toDbfs } from '@/lib/inputLevel';
+
+type MicrophonePanelProps = {
+  devices: InputDevice[];
+  selectedId: string | null; // null: system default
+  onSelect: (deviceId: string | null) => void;
+  onRefresh: () => void;
+  level: InputLevel | null; // null while not capturing
+};
+
+// Input device picker (works while connected) and live level meter
+export function MicrophonePanel({ devices, selectedId, onSelect, onRefresh, level }: MicrophonePanelProps) {
+  const rms = level ? meterPosition(level.rms) : 0;
+  const peak = level ? meterPosition(level.peak) : 0;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-700">
+        Microphone
+      </h3>
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        onFocus={onRefresh}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">System default</option>
+        {devices.map((device) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label}{device.isDefault ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+      <div>
+        <div className="relative h-2 rounded bg-gray-100 overflow-hidden" aria-label="Input level">
+          <div
+            className={`absolute inset-y-0 left-0 transition-[width] duration-100 ${
+              peak > 0.95 ? 'bg-red-500' : 'bg-green-500'
+            }`}
+            style={{ width: `${rms * 100}%` }}
+          />
+          {level && (
+            <div className="absolute inset-y-0 w-0.5 bg-gray-700" style={{ left: `${peak * 100}%` }} />
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          {level
+            ? `RMS ${toDbfs(level.rms).toFixed(0)} dBFS · peak ${toDbfs(level.peak).toFixed(0)} dBFS`
+            : 'Level shows while the mic is capturing'}
+        </p>
+      </div>
+    </div>
+  );
+}
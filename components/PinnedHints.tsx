@@ -0,0 +1,39 @@
+'use client';
+
+import type { Hint } from '@/lib/hints';
+
+type PinnedHintsProps = {
+  hints: Hint[];
+  onUnpin: (id: string) => void;
+};
+
+// Compact overlay that keeps pinned hints on top of the page while scrolling
+export function PinnedHints({ hints, onUnpin }: PinnedHintsProps) {
+  if (hints.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-h-[50vh] overflow-y-auto space-y-2">
+      {hints.map((hint) => (
+        <div
+          key={hint.id}
+          className="bg-amber-50/95 border border-amber-300 rounded-lg shadow-lg p-3 text-sm backdrop-blur"
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-semibold text-amber-800">
+              📌 {hint.icon ? `${hint.icon} ` : ''}{hint.label}
+            </span>
+            <button
+              type="button"
+              onClick={() => onUnpin(hint.id)}
+              className="text-amber-700 hover:text-amber-900 text-xs"
+              aria-label="Unpin hint"
+            >
+              ✕
+            </button>
+          </div>
+          <p className="text-gray-900 whitespace-pre-wrap break-words">{hint.text || '…'}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from './ui/Button';
+import type { ReferenceDocument } from '@/lib/referenceIndex';
+
+type ReferencePanelProps = {
+  documents: ReferenceDocument[];
+  onChange: (documents: ReferenceDocument[]) => void;
+  disabled: boolean;
+};
+
+function newDocumentId(): string {
+  return `doc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function ReferencePanel({ documents, onChange, disabled }: ReferencePanelProps) {
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const addPasted = () => {
+    if (!text.trim()) return;
+    onChange([
+      ...documents,
+      { id: newDocumentId(), name: name.trim() || `Pasted document ${documents.length + 1}`, text },
+    ]);
+    setName('');
+    setText('');
+  };
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const added = await Promise.all(
+      [...files].map(async (file) => ({ id: newDocumentId(), name: file.name, text: await file.text() }))
+    );
+    onChange([...documents, ...added.filter((document) => document.text.trim())]);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-700">
+        Reference Documents
+      </h3>
+
+      {documents.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          No documents. Hints are grounded in the conversation only.
+        </p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto text-xs space-y-1">
+          {documents.map((document) => (
+            <div
+              key={document.id}
+              className="flex items-center gap-2 p-2 rounded border bg-gray-50 border-gray-100"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-800 truncate">{document.name}</div>
+                <div className="text-gray-500">{wordCount(document.text)} words</div>
+              </div>
+              <Button
+                onClick={() => onChange(documents.filter((d) => d.id !== document.id))}
+                disabled={disabled}
+                variant="ghost"
+                size="sm"
+                aria-label={`Remove ${document.name}`}
+              >
+                ✕
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 pt-3 border-t border-gray-200">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={disabled}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+          placeholder="Document name (optional)"
+        />
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={disabled}
+          rows={4}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+          placeholder="Paste text or Markdown"
+        />
+        <div className="flex gap-2">
+          <Button onClick={addPasted} disabled={disabled || !text.trim()} variant="primary" size="sm">
+            Add
+          </Button>
+          <Button onClick={() => fileInput.current?.click()} disabled={disabled} variant="outline" size="sm">
+            Upload .txt / .md
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".txt,.md,.markdown,text/plain,text/markdown"
+            multiple
+            onChange={(e) => void addFiles(e.target.files)}
+            className="hidden"
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          The most relevant passages are added to each triggered response
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { Button } from './ui/Button';
+import type { StoredSessionSummary } from '@/lib/sessionStore';
+
+type SessionPickerProps = {
+  sessions: StoredSessionSummary[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  disabled: boolean;
+};
+
+export function SessionPicker({
+  sessions,
+  selectedId,
+  onSelect,
+  onDelete,
+  disabled,
+}: SessionPickerProps) {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <h3 className="text-sm font-semibold mb-3 text-gray-700">
+        Past Sessions
+      </h3>
+      {sessions.length === 0 ? (
+        <p className="text-xs text-gray-400">No saved sessions yet.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto text-xs space-y-1">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className={`flex items-center gap-2 p-2 rounded border ${
+                session.id === selectedId
+                  ? 'bg-blue-50 border-blue-200'
+                  : 'bg-gray-50 border-gray-100'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(session.id)}
+                disabled={disabled}
+                className="flex-1 text-left cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <div className="font-medium text-gray-800 truncate">{session.title}</div>
+                <div className="text-gray-500">
+                  {session.itemCount} messages · updated{' '}
+                  {new Date(session.updatedAt).toLocaleTimeString()}
+                </div>
+              </button>
+              <Button
+                onClick={() => onDelete(session.id)}
+                disabled={disabled}
+                variant="ghost"
+                size="sm"
+                aria-label="Delete session"
+              >
+                ✕
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
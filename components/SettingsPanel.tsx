@@ -1,25 +1,55 @@
 'use client';
 
-import { Button } from './ui/Button';
-
-export type InputMode = 'audio' | 'text';
-
-export type VoiceSettings = {
-  quickHintPhrase: string;
-  fullGuidancePhrase: string;
-  interruptPhrases: string[];
-  quickHintDuration: number;
-  fullGuidanceDuration: number;
-  inputMode: InputMode;
-};
+import { useEffect, useState } from 'react';
+import { TriggerEditor } from './TriggerEditor';
+import { HotkeyInput } from './HotkeyInput';
+import { AUDIO_TRANSPORT_LABELS, AudioTransportKind } from '@/lib/audioTransport';
+import { findHotkeyConflicts, HotkeyBindings } from '@/lib/hotkeys';
+import {
+  LANGUAGE_CODES,
+  LANGUAGE_NAMES,
+  ResponseLanguage,
+  TranscriptionLanguage,
+} from '@/lib/languages';
+import {
+  listOutputDevices,
+  MAX_PLAYBACK_RATE,
+  MIN_PLAYBACK_RATE,
+  OutputDevice,
+  OutputSettings,
+  supportsOutputDeviceSelection,
+  Voice,
+  VOICE_LABELS,
+  VOICES,
+} from '@/lib/outputAudio';
+import type { VoiceSettings } from '@/lib/settings';
 
 type SettingsPanelProps = {
   settings: VoiceSettings;
   onSettingsChange: (settings: VoiceSettings) => void;
   isConnected: boolean;
+  // Output controls apply live, so they stay enabled while connected
+  output: OutputSettings;
+  onOutputChange: (output: OutputSettings) => void;
+  onPreviewVoice: (voice: Voice) => void;
+  isPreviewing: boolean;
 };
 
-export function SettingsPanel({ settings, onSettingsChange, isConnected }: SettingsPanelProps) {
+export function SettingsPanel({
+  settings,
+  onSettingsChange,
+  isConnected,
+  output,
+  onOutputChange,
+  onPreviewVoice,
+  isPreviewing,
+}: SettingsPanelProps) {
+  const [outputDevices, setOutputDevices] = useState<OutputDevice[]>([]);
+  const [canSelectOutput, setCanSelectOutput] = useState(false);
+
+  // Checked after mount so the server render matches the first client render
+  useEffect(() => setCanSelectOutput(supportsOutputDeviceSelection()), []);
+
   const updateSetting = <K extends keyof VoiceSettings>(
     key: K,
     value: VoiceSettings[K]
@@ -27,6 +57,25 @@ export function SettingsPanel({ settings, onSettingsChange, isConnected }: Setti
     onSettingsChange({ ...settings, [key]: value });
   };
 
+  const updateHotkey = (key: Exclude<keyof HotkeyBindings, 'triggers'>, combo: string) => {
+    updateSetting('hotkeys', { ...settings.hotkeys, [key]: combo });
+  };
+
+  const updateOutput = <K extends keyof OutputSettings>(key: K, value: OutputSettings[K]) => {
+    onOutputChange({ ...output, [key]: value });
+  };
+
+  const refreshOutputDevices = async () => {
+    try {
+      setOutputDevices(await listOutputDevices());
+    } catch (error) {
+      console.warn('⚠️ Could not list output devices:', error);
+    }
+  };
+
+  const conflicts = findHotkeyConflicts(settings.hotkeys, settings.triggers.map((t) => t.id));
+  const isConflict = (combo: string | undefined) => Boolean(combo && conflicts.has(combo));
+
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
       <h2 className="text-xl font-bold text-gray-900">Settings</h2>
@@ -75,68 +124,175 @@ export function SettingsPanel({ settings, onSettingsChange, isConnected }: Setti
           </div>
         </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Quick Hint Trigger Phrase
+        {/* Transport Selector */}
+        <div className="pb-4 border-b border-gray-200">
+          <label className="block text-sm font-medium text-gray-700 mb-3">
+            Audio Transport
           </label>
-          <input
-            type="text"
-            value={settings.quickHintPhrase}
-            onChange={(e) => updateSetting('quickHintPhrase', e.target.value)}
-            disabled={isConnected}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
-            placeholder="e.g., good question"
-          />
-          <p className="text-xs text-gray-500 mt-1">
-            Say this phrase to trigger a quick hint
-          </p>
+          <div className="space-y-2">
+            {(Object.keys(AUDIO_TRANSPORT_LABELS) as AudioTransportKind[]).map((kind) => (
+              <label key={kind} className="flex items-center">
+                <input
+                  type="radio"
+                  name="transport"
+                  value={kind}
+                  checked={settings.transport === kind}
+                  onChange={() => updateSetting('transport', kind)}
+                  disabled={isConnected}
+                  className="mr-2"
+                />
+                <div>
+                  <span className="font-medium">{AUDIO_TRANSPORT_LABELS[kind].label}</span>
+                  <p className="text-xs text-gray-500">
+                    {AUDIO_TRANSPORT_LABELS[kind].description}
+                  </p>
+                </div>
+              </label>
+            ))}
+          </div>
         </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Quick Hint Duration (seconds)
+        {/* Audio Output */}
+        <div className="pb-4 border-b border-gray-200 space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Audio Output
           </label>
-          <input
-            type="number"
-            min="5"
-            max="60"
-            value={settings.quickHintDuration}
-            onChange={(e) => updateSetting('quickHintDuration', parseInt(e.target.value) || 10)}
-            disabled={isConnected}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
-          />
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              Voice
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={settings.voice}
+                onChange={(e) => updateSetting('voice', e.target.value as Voice)}
+                disabled={isConnected}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+              >
+                {VOICES.map((voice) => (
+                  <option key={voice} value={voice}>{VOICE_LABELS[voice]}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onPreviewVoice(settings.voice)}
+                disabled={isPreviewing}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isPreviewing ? 'Loading…' : '▶ Preview'}
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="flex justify-between text-xs font-medium text-gray-600 mb-1">
+              <span>Volume</span>
+              <span>{Math.round(output.volume * 100)}%</span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={output.volume}
+              onChange={(e) => updateOutput('volume', parseFloat(e.target.value))}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="flex justify-between text-xs font-medium text-gray-600 mb-1">
+              <span>Playback Speed</span>
+              <span>{output.playbackRate.toFixed(2)}x</span>
+            </label>
+            <input
+              type="range"
+              min={MIN_PLAYBACK_RATE}
+              max={MAX_PLAYBACK_RATE}
+              step="0.05"
+              value={output.playbackRate}
+              onChange={(e) => updateOutput('playbackRate', parseFloat(e.target.value))}
+              disabled={settings.transport !== 'websocket'}
+              className="w-full disabled:opacity-50"
+            />
+            <p className="text-xs text-gray-500">
+              WebSocket transport only; speeding up also raises the pitch
+            </p>
+          </div>
+          {canSelectOutput && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Output Device
+              </label>
+              <select
+                value={output.deviceId ?? ''}
+                onChange={(e) => updateOutput('deviceId', e.target.value || null)}
+                onFocus={refreshOutputDevices}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">System default</option>
+                {output.deviceId && !outputDevices.some((d) => d.deviceId === output.deviceId) && (
+                  <option value={output.deviceId}>Saved device</option>
+                )}
+                {outputDevices.map((device) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Send hints to a private output (e.g. one earbud) so others on a call don&apos;t hear them
+              </p>
+            </div>
+          )}
         </div>
 
-        <div className="pt-4 border-t border-gray-200">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Full Guidance Trigger Phrase
-          </label>
-          <input
-            type="text"
-            value={settings.fullGuidancePhrase}
-            onChange={(e) => updateSetting('fullGuidancePhrase', e.target.value)}
-            disabled={isConnected}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
-            placeholder="e.g., let me think"
-          />
-          <p className="text-xs text-gray-500 mt-1">
-            Say this phrase to trigger full guidance
+        {/* Languages */}
+        <div className="pb-4 border-b border-gray-200 grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Transcription
+            </label>
+            <select
+              value={settings.transcriptionLanguage}
+              onChange={(e) => updateSetting('transcriptionLanguage', e.target.value as TranscriptionLanguage)}
+              disabled={isConnected}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+            >
+              <option value="auto">Auto-detect</option>
+              {LANGUAGE_CODES.map((code) => (
+                <option key={code} value={code}>{LANGUAGE_NAMES[code]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Responses
+            </label>
+            <select
+              value={settings.responseLanguage}
+              onChange={(e) => updateSetting('responseLanguage', e.target.value as ResponseLanguage)}
+              disabled={isConnected}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+            >
+              <option value="same">Same as speaker</option>
+              {LANGUAGE_CODES.map((code) => (
+                <option key={code} value={code}>{LANGUAGE_NAMES[code]}</option>
+              ))}
+            </select>
+          </div>
+          <p className="col-span-2 text-xs text-gray-500">
+            Auto-detect listens for every language&apos;s trigger phrases
           </p>
         </div>
 
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Full Guidance Duration (seconds)
+            Triggers
           </label>
-          <input
-            type="number"
-            min="5"
-            max="120"
-            value={settings.fullGuidanceDuration}
-            onChange={(e) => updateSetting('fullGuidanceDuration', parseInt(e.target.value) || 20)}
+          <TriggerEditor
+            triggers={settings.triggers}
+            onChange={(triggers) => updateSetting('triggers', triggers)}
             disabled={isConnected}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
           />
+          <p className="text-xs text-gray-500 mt-1">
+            Say a trigger phrase or use its button to get a response
+          </p>
         </div>
 
         <div className="pt-4 border-t border-gray-200">
@@ -161,10 +317,110 @@ export function SettingsPanel({ settings, onSettingsChange, isConnected }: Setti
           </p>
         </div>
 
+        <div className="pt-4 border-t border-gray-200">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Duration Overrun Margin (%)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="200"
+            step="5"
+            value={Math.round(settings.durationMargin * 100)}
+            onChange={(e) => updateSetting('durationMargin', Math.max(0, parseInt(e.target.value) || 0) / 100)}
+            disabled={isConnected}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Responses running this far past their target duration fade out and are cut
+          </p>
+        </div>
+
+        {/* Keyboard control while connected */}
+        <div className="pt-4 border-t border-gray-200 space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Hotkeys
+          </label>
+          {settings.triggers.map((trigger) => (
+            <HotkeyInput
+              key={trigger.id}
+              label={trigger.label}
+              value={settings.hotkeys.triggers[trigger.id] ?? ''}
+              onChange={(combo) =>
+                updateSetting('hotkeys', {
+                  ...settings.hotkeys,
+                  triggers: { ...settings.hotkeys.triggers, [trigger.id]: combo },
+                })
+              }
+              disabled={isConnected}
+              conflict={isConflict(settings.hotkeys.triggers[trigger.id])}
+            />
+          ))}
+          <HotkeyInput
+            label="Interrupt"
+            value={settings.hotkeys.interrupt}
+            onChange={(combo) => updateHotkey('interrupt', combo)}
+            disabled={isConnected}
+            conflict={isConflict(settings.hotkeys.interrupt)}
+          />
+          <HotkeyInput
+            label="Mute / unmute"
+            value={settings.hotkeys.mute}
+            onChange={(combo) => updateHotkey('mute', combo)}
+            disabled={isConnected}
+            conflict={isConflict(settings.hotkeys.mute)}
+          />
+          <HotkeyInput
+            label="Hold to talk"
+            value={settings.hotkeys.holdToTalk}
+            onChange={(combo) => updateHotkey('holdToTalk', combo)}
+            disabled={isConnected}
+            conflict={isConflict(settings.hotkeys.holdToTalk)}
+          />
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={settings.holdToTalk}
+              onChange={(e) => updateSetting('holdToTalk', e.target.checked)}
+              disabled={isConnected}
+              className="mr-2"
+            />
+            Hold-to-talk mode
+          </label>
+          <p className="text-xs text-gray-500">
+            {conflicts.size > 0
+              ? 'Some keys are bound twice; only one action will fire'
+              : 'In hold-to-talk mode the mic only streams while the key is held, and speech is committed on release'}
+          </p>
+        </div>
+
+        {/* Knowledge for the agent's tools */}
+        <div className="pt-4 border-t border-gray-200 space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Tools
+          </label>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              Notes
+            </label>
+            <textarea
+              value={settings.notes}
+              onChange={(e) => updateSetting('notes', e.target.value)}
+              disabled={isConnected}
+              rows={4}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+              placeholder="Facts, names and numbers the agent can look up"
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            The agent can also search the reference documents and use a calculator
+          </p>
+        </div>
+
         {isConnected && (
           <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
             <p className="text-sm text-blue-800">
-              Settings are locked while connected. Disconnect to modify.
+              Settings are locked while connected (except audio output). Disconnect to modify.
             </p>
           </div>
         )}
@@ -1,14 +1,31 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
+import type { TranscriptItem, TranscriptToolCall } from '@/lib/transcript';
 
-export type TranscriptItem = {
-  id: string;
-  role: 'user' | 'assistant';
-  text: string;
-  timestamp: Date;
-  isLive?: boolean;
-};
+function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+function ToolCallRow({ call }: { call: TranscriptToolCall }) {
+  return (
+    <div className="flex justify-start">
+      <div className="max-w-[80%] rounded-md border border-dashed border-gray-300 bg-gray-100 px-3 py-2 text-xs text-gray-700 font-mono">
+        <div>
+          🔧 {call.name}({call.arguments})
+          {call.status === 'running' && <span className="ml-2 text-gray-400">running…</span>}
+        </div>
+        {call.output !== undefined && (
+          <div className={`mt-1 whitespace-pre-wrap break-words ${call.status === 'error' ? 'text-red-600' : 'text-gray-600'}`}>
+            → {call.output}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
 
 type TranscriptDisplayProps = {
   items: TranscriptItem[];
@@ -34,35 +51,43 @@ export function TranscriptDisplay({ items }: TranscriptDisplayProps) {
           <p>No transcript yet. Start listening to see conversation here.</p>
         </div>
       ) : (
-        items.map((item) => (
-          <div
-            key={item.id}
-            className={`flex ${item.role === 'user' ? 'justify-end' : 'justify-start'}`}
-          >
+        items.map((item) =>
+          item.role === 'tool' && item.tool ? (
+            <ToolCallRow key={item.id} call={item.tool} />
+          ) : (
             <div
-              className={`max-w-[80%] rounded-2xl px-4 py-3 ${
-                item.role === 'user'
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-white text-gray-900 border border-gray-200'
-              } ${item.isLive ? 'animate-pulse' : ''}`}
+              key={item.id}
+              className={`flex ${item.role === 'user' ? 'justify-end' : 'justify-start'}`}
             >
-              <div className="flex items-start gap-2">
-                <div className="flex-1">
-                  <div className="text-xs opacity-70 mb-1">
-                    {item.role === 'user' ? 'You' : 'Assistant'}
-                    {item.isLive && ' (speaking...)'}
-                  </div>
-                  <div className="text-sm whitespace-pre-wrap break-words">
-                    {item.text || '...'}
+              <div
+                className={`max-w-[80%] rounded-2xl px-4 py-3 ${
+                  item.role === 'user'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-900 border border-gray-200'
+                } ${item.isLive ? 'animate-pulse' : ''}`}
+              >
+                <div className="flex items-start gap-2">
+                  <div className="flex-1">
+                    <div className="text-xs opacity-70 mb-1">
+                      {item.role === 'user' ? 'You' : 'Assistant'}
+                      {item.trigger && ` · ${item.trigger.label}`}
+                      {item.isLive && ' (speaking...)'}
+                    </div>
+                    <div className="text-sm whitespace-pre-wrap break-words">
+                      {item.text || '...'}
+                    </div>
                   </div>
                 </div>
-              </div>
-              <div className="text-xs opacity-50 mt-1">
-                {item.timestamp.toLocaleTimeString()}
+                <div className="text-xs opacity-50 mt-1">
+                  {item.timestamp.toLocaleTimeString()}
+                  {item.durationMs !== undefined && ` · ${formatDuration(item.durationMs)}`}
+                  {item.trigger?.targetMs !== undefined && ` of ${formatDuration(item.trigger.targetMs)} target`}
+                  {item.trigger?.limitedAtMs !== undefined && ' · cut at limit'}
+                </div>
               </div>
             </div>
-          </div>
-        ))
+          )
+        )
       )}
     </div>
   );
@@ -0,0 +1,327 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from './ui/Button';
+import {
+  DELIVERY_LABELS,
+  TriggerContextScope,
+  TriggerDefinition,
+  TriggerDelivery,
+  contextBudgetOf,
+  createTrigger,
+  deliveryOf,
+} from '@/lib/triggers';
+import { LanguageCode, LANGUAGE_CODES, LANGUAGE_NAMES } from '@/lib/languages';
+
+type TriggerEditorProps = {
+  triggers: TriggerDefinition[];
+  onChange: (triggers: TriggerDefinition[]) => void;
+  disabled: boolean;
+};
+
+const SCOPE_OPTIONS: { kind: TriggerContextScope['kind']; label: string }[] = [
+  { kind: 'seconds', label: 'Last N seconds' },
+  { kind: 'userTurns', label: 'Last N user turns' },
+  { kind: 'sinceResponse', label: 'Since last response' },
+  { kind: 'full', label: 'Whole session' },
+];
+
+function parsePhrases(value: string): string[] {
+  return value.split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+function defaultScope(kind: TriggerContextScope['kind']): TriggerContextScope {
+  switch (kind) {
+    case 'seconds':
+      return { kind, seconds: 60 };
+    case 'userTurns':
+      return { kind, turns: 3 };
+    default:
+      return { kind };
+  }
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed';
+
+type PhraseInputProps = {
+  phrases: string[];
+  onChange: (phrases: string[]) => void;
+  disabled: boolean;
+  className?: string;
+  placeholder?: string;
+};
+
+// Comma-separated phrases, edited as raw text and parsed on blur or Enter,
+// so spaces and commas can be typed before the next word
+function PhraseInput({ phrases, onChange, disabled, className, placeholder }: PhraseInputProps) {
+  const joined = phrases.join(', ');
+  const [text, setText] = useState(joined);
+  const [editing, setEditing] = useState(false);
+
+  // Follow outside changes (e.g. loaded settings) while not being edited
+  useEffect(() => {
+    if (!editing) setText(joined);
+  }, [joined, editing]);
+
+  const commit = () => {
+    setEditing(false);
+    const parsed = parsePhrases(text);
+    setText(parsed.join(', '));
+    if (parsed.join('\n') !== phrases.join('\n')) onChange(parsed);
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setEditing(true);
+        setText(e.target.value);
+      }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      disabled={disabled}
+      className={className}
+      placeholder={placeholder}
+    />
+  );
+}
+
+export function TriggerEditor({ triggers, onChange, disabled }: TriggerEditorProps) {
+  const updateTrigger = <K extends keyof TriggerDefinition>(
+    id: string,
+    key: K,
+    value: TriggerDefinition[K]
+  ) => {
+    onChange(triggers.map((t) => (t.id === id ? { ...t, [key]: value } : t)));
+  };
+
+  const updateLanguagePhrases = (trigger: TriggerDefinition, language: LanguageCode, phrases: string[] | null) => {
+    const byLanguage = { ...trigger.phrasesByLanguage };
+    if (phrases === null) {
+      delete byLanguage[language];
+    } else {
+      byLanguage[language] = phrases;
+    }
+    updateTrigger(trigger.id, 'phrasesByLanguage', byLanguage);
+  };
+
+  const removeTrigger = (id: string) => {
+    onChange(triggers.filter((t) => t.id !== id));
+  };
+
+  const addTrigger = () => {
+    onChange([...triggers, createTrigger(triggers)]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {triggers.map((trigger) => (
+        <div
+          key={trigger.id}
+          className="p-3 border border-gray-200 rounded-md space-y-3"
+        >
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={trigger.label}
+              onChange={(e) => updateTrigger(trigger.id, 'label', e.target.value)}
+              disabled={disabled}
+              className={`${inputClassName} font-medium`}
+              placeholder="Trigger name"
+            />
+            <Button
+              onClick={() => removeTrigger(trigger.id)}
+              disabled={disabled}
+              variant="ghost"
+              size="sm"
+              aria-label={`Remove ${trigger.label}`}
+            >
+              ✕
+            </Button>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Trigger Phrases (any language)
+            </label>
+            <PhraseInput
+              phrases={trigger.phrases}
+              onChange={(phrases) => updateTrigger(trigger.id, 'phrases', phrases)}
+              disabled={disabled}
+              className={inputClassName}
+              placeholder="e.g., summarize so far"
+            />
+          </div>
+
+          <div className="space-y-2">
+            {(Object.keys(trigger.phrasesByLanguage ?? {}) as LanguageCode[]).map((language) => (
+              <div key={language} className="flex items-center gap-2">
+                <span className="w-24 shrink-0 text-xs text-gray-600">{LANGUAGE_NAMES[language]}</span>
+                <PhraseInput
+                  phrases={trigger.phrasesByLanguage?.[language] ?? []}
+                  onChange={(phrases) => updateLanguagePhrases(trigger, language, phrases)}
+                  disabled={disabled}
+                  className={`${inputClassName} text-sm`}
+                />
+                <Button
+                  onClick={() => updateLanguagePhrases(trigger, language, null)}
+                  disabled={disabled}
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Remove ${LANGUAGE_NAMES[language]} phrases`}
+                >
+                  ✕
+                </Button>
+              </div>
+            ))}
+            <select
+              value=""
+              onChange={(e) => updateLanguagePhrases(trigger, e.target.value as LanguageCode, [])}
+              disabled={disabled}
+              className={`${inputClassName} text-sm text-gray-600`}
+            >
+              <option value="">+ Phrases for a specific language…</option>
+              {LANGUAGE_CODES.filter((code) => !trigger.phrasesByLanguage?.[code]).map((code) => (
+                <option key={code} value={code}>{LANGUAGE_NAMES[code]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Instructions
+            </label>
+            <textarea
+              value={trigger.instructions}
+              onChange={(e) => updateTrigger(trigger.id, 'instructions', e.target.value)}
+              disabled={disabled}
+              rows={3}
+              className={`${inputClassName} text-sm`}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Placeholders: {'{duration}'}, {'{label}'}, {'{context}'}, {'{language}'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Duration (seconds)
+              </label>
+              <input
+                type="number"
+                min="5"
+                max="120"
+                value={trigger.duration}
+                onChange={(e) => updateTrigger(trigger.id, 'duration', parseInt(e.target.value) || 10)}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Context
+              </label>
+              <select
+                value={trigger.contextScope.kind}
+                onChange={(e) =>
+                  updateTrigger(trigger.id, 'contextScope', defaultScope(e.target.value as TriggerContextScope['kind']))
+                }
+                disabled={disabled}
+                className={inputClassName}
+              >
+                {SCOPE_OPTIONS.map((option) => (
+                  <option key={option.kind} value={option.kind}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {trigger.contextScope.kind === 'seconds' && (
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  Seconds of conversation
+                </label>
+                <input
+                  type="number"
+                  min="10"
+                  max="3600"
+                  value={trigger.contextScope.seconds}
+                  onChange={(e) =>
+                    updateTrigger(trigger.id, 'contextScope', { kind: 'seconds', seconds: parseInt(e.target.value) || 60 })
+                  }
+                  disabled={disabled}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            {trigger.contextScope.kind === 'userTurns' && (
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  User turns
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  value={trigger.contextScope.turns}
+                  onChange={(e) =>
+                    updateTrigger(trigger.id, 'contextScope', { kind: 'userTurns', turns: parseInt(e.target.value) || 3 })
+                  }
+                  disabled={disabled}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Context budget (tokens)
+              </label>
+              <input
+                type="number"
+                min="500"
+                max="32000"
+                step="500"
+                value={contextBudgetOf(trigger)}
+                onChange={(e) => updateTrigger(trigger.id, 'contextBudget', parseInt(e.target.value) || undefined)}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Delivery
+              </label>
+              <select
+                value={deliveryOf(trigger)}
+                onChange={(e) => updateTrigger(trigger.id, 'delivery', e.target.value as TriggerDelivery)}
+                disabled={disabled}
+                className={inputClassName}
+              >
+                {(Object.keys(DELIVERY_LABELS) as TriggerDelivery[]).map((delivery) => (
+                  <option key={delivery} value={delivery}>
+                    {DELIVERY_LABELS[delivery]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        onClick={addTrigger}
+        disabled={disabled}
+        variant="outline"
+        size="sm"
+        className="w-full"
+      >
+        + Add Trigger
+      </Button>
+    </div>
+  );
+}
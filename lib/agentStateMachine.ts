@@ -0,0 +1,164 @@
+// Explicit state machine for the triggered agent.
+//
+// Every state change goes through send(), which looks the (state, event) pair
+// up in a declared transition table. Pairs that are not in the table are
+// rejected and recorded, which is how "trigger while busy" and late events
+// from a cancelled response are kept from corrupting the state.
+
+import { TypedEventEmitter } from './typedEventEmitter';
+
+export type AgentState =
+  | 'disconnected'
+  | 'connecting'
+  | 'listening' // Silent, waiting for a trigger
+  | 'generating' // Response requested, no audio yet
+  | 'speaking' // Response audio is audible
+  | 'draining' // Response done on the server, queued audio still playing
+  | 'interrupted' // Playback stopped, waiting for the cancel to settle
+  | 'reconnecting' // Transport dropped, supervisor is re-establishing it
+  | 'error';
+
+export type AgentEvent =
+  | 'connect'
+  | 'connected'
+  | 'trigger'
+  | 'responseCreated'
+  | 'audioStarted' // Player reports audio became audible
+  | 'awaitPlayback' // Response done on the server, audio still queued
+  | 'responseDone' // Response done and nothing left to play
+  | 'playbackFinished'
+  | 'interrupt'
+  | 'interruptComplete'
+  | 'connectionLost'
+  | 'fail'
+  | 'disconnect';
+
+export type TransitionRecord = {
+  at: number; // Date.now()
+  event: AgentEvent;
+  from: AgentState;
+  to: AgentState;
+  accepted: boolean;
+  detail?: string;
+};
+
+export type AgentStateMachineEvents = {
+  transition: [record: TransitionRecord];
+};
+
+const ALWAYS: Partial<Record<AgentEvent, AgentState>> = {
+  connectionLost: 'reconnecting',
+  fail: 'error',
+  disconnect: 'disconnected',
+};
+
+// Self-transitions are accepted but do not notify listeners
+const TRANSITIONS: Record<AgentState, Partial<Record<AgentEvent, AgentState>>> = {
+  disconnected: { connect: 'connecting', disconnect: 'disconnected' },
+  connecting: { connected: 'listening', fail: 'error', disconnect: 'disconnected' },
+  listening: {
+    ...ALWAYS,
+    trigger: 'generating',
+    responseCreated: 'generating', // Response we did not trigger ourselves
+    responseDone: 'listening', // Late done for a cancelled response
+    playbackFinished: 'listening',
+    interruptComplete: 'listening',
+  },
+  generating: {
+    ...ALWAYS,
+    responseCreated: 'generating',
+    audioStarted: 'speaking',
+    awaitPlayback: 'draining', // Audio queued but not audible yet
+    responseDone: 'listening', // Finished without producing audio
+    interrupt: 'interrupted',
+  },
+  speaking: {
+    ...ALWAYS,
+    audioStarted: 'speaking',
+    playbackFinished: 'speaking', // One item done, more audio is coming
+    awaitPlayback: 'draining',
+    responseDone: 'listening',
+    interrupt: 'interrupted',
+  },
+  draining: {
+    ...ALWAYS,
+    audioStarted: 'draining',
+    playbackFinished: 'listening',
+    awaitPlayback: 'draining',
+    responseDone: 'listening',
+    interrupt: 'interrupted',
+  },
+  interrupted: {
+    ...ALWAYS,
+    interruptComplete: 'listening',
+    audioStarted: 'interrupted', // Deltas still in flight for the cancelled response
+    responseDone: 'interrupted',
+    playbackFinished: 'interrupted',
+  },
+  reconnecting: { ...ALWAYS, connected: 'listening' },
+  error: { connect: 'connecting', disconnect: 'disconnected', fail: 'error' },
+};
+
+const BUSY_STATES: AgentState[] = ['generating', 'speaking', 'draining', 'interrupted'];
+
+const MAX_LOG_ENTRIES = 200;
+
+export class AgentStateMachine extends TypedEventEmitter<AgentStateMachineEvents> {
+  private current: AgentState = 'disconnected';
+  private log: TransitionRecord[] = [];
+
+  get state(): AgentState {
+    return this.current;
+  }
+
+  /** True while a response is in progress (including playback and cancellation). */
+  get isBusy(): boolean {
+    return BUSY_STATES.includes(this.current);
+  }
+
+  /** True in the states where response audio is being played. */
+  get isAudible(): boolean {
+    return this.current === 'speaking' || this.current === 'draining';
+  }
+
+  get transitionLog(): readonly TransitionRecord[] {
+    return this.log;
+  }
+
+  can(event: AgentEvent): boolean {
+    return TRANSITIONS[this.current][event] !== undefined;
+  }
+
+  /**
+   * Apply an event. Returns false (and records the rejection) if the event
+   * is not allowed in the current state.
+   */
+  send(event: AgentEvent, detail?: string): boolean {
+    const from = this.current;
+    const to = TRANSITIONS[from][event];
+
+    if (to === undefined) {
+      this.record({ at: Date.now(), event, from, to: from, accepted: false, detail });
+      console.log(`🚦 Rejected "${event}" in state ${from}${detail ? ` (${detail})` : ''}`);
+      return false;
+    }
+
+    if (to === from) {
+      return true;
+    }
+
+    this.current = to;
+    const record: TransitionRecord = { at: Date.now(), event, from, to, accepted: true, detail };
+    this.record(record);
+    console.log(`🚦 ${from} → ${to} (${event}${detail ? `: ${detail}` : ''})`);
+    this.emit('transition', record);
+    return true;
+  }
+
+  private record(entry: TransitionRecord) {
+    this.log.push(entry);
+    if (this.log.length > MAX_LOG_ENTRIES) {
+      this.log.splice(0, this.log.length - MAX_LOG_ENTRIES);
+    }
+  }
+}
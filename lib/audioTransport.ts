@@ -0,0 +1,94 @@
+// Common interface over the two ways audio can reach the Realtime API.
+//
+// - websocket: we capture the mic with WavRecorder, push PCM with sendAudio()
+//   and play base64 audio deltas through WavStreamPlayer.
+// - webrtc: the browser captures and plays audio over a peer connection; we
+//   only see data-channel events such as output_audio_buffer.started/stopped.
+//
+// The controller drives the trigger, modality and interrupt flow the same way
+// on both; only capture, playback tracking and interrupt-time accounting live
+// behind this interface.
+
+import type { RealtimeSession, TransportEvent, OpenAIRealtimeWebRTC } from '@openai/agents/realtime';
+import type { WavRecorder, WavStreamPlayer } from 'wavtools';
+import type { TypedEventEmitter } from './typedEventEmitter';
+import type { PlaybackFinishedInfo, PlaybackInterruptResult } from './playbackTracker';
+import type { InputLevel } from './inputLevel';
+import type { OutputSettings } from './outputAudio';
+import { WebSocketAudioTransport } from './websocketAudioTransport';
+import { WebRtcAudioTransport } from './webrtcAudioTransport';
+
+export type AudioTransportKind = 'websocket' | 'webrtc';
+
+export const AUDIO_TRANSPORT_LABELS: Record<AudioTransportKind, { label: string; description: string }> = {
+  websocket: {
+    label: 'WebSocket',
+    description: 'Audio streamed by the app (manual capture and playback)',
+  },
+  webrtc: {
+    label: 'WebRTC',
+    description: 'Browser media stack (built-in echo cancellation, lower latency)',
+  },
+};
+
+export type AudioTransportEvents = {
+  playbackStarted: [itemId: string];
+  playbackFinished: [itemId: string, info: PlaybackFinishedInfo];
+  // Input audio handed to the server; WebRTC streams continuously and reports once at start
+  audioSent: [durationMs: number];
+  // An item reached the output limit and was faded out; playedMs is where it ends
+  outputLimited: [result: PlaybackInterruptResult];
+  // Level of the captured mic audio, several times a second while capturing
+  inputLevel: [level: InputLevel];
+};
+
+export interface AudioTransport
+  extends Pick<TypedEventEmitter<AudioTransportEvents>, 'on' | 'off' | 'removeAllListeners'> {
+  readonly kind: AudioTransportKind;
+
+  /** True while any response audio is queued or playing. */
+  readonly isActive: boolean;
+  /** True while response audio is audible right now. */
+  readonly isAudible: boolean;
+
+  /** Value for RealtimeSession's `transport` option. Called once per session. */
+  createTransportLayer(): 'websocket' | OpenAIRealtimeWebRTC;
+  /** Get output ready before the first connection. */
+  prepare(): Promise<void>;
+  /** Start sending mic audio into a freshly connected session. */
+  start(session: RealtimeSession<any>): Promise<void>;
+  setMuted(muted: boolean): Promise<void>;
+  /** Capture from this device (null: system default), switching live if started. */
+  setInputDevice(deviceId: string | null): Promise<void>;
+  /** Stop sending without releasing the mic (connection lost, about to reconnect). */
+  suspend(): Promise<void>;
+  /** Release the mic and stop playback. */
+  stop(): Promise<void>;
+
+  /** Feed every server event; dropAudio discards audio for a cancelled response. */
+  handleTransportEvent(event: TransportEvent, dropAudio: boolean): void;
+  /** Stop playback now and report how much of the current item was heard. */
+  interrupt(): Promise<PlaybackInterruptResult | null>;
+  /** Fade out and stop every item from now on at limitMs into it (null: no limit). */
+  setOutputLimit(limitMs: number | null, fadeMs: number): void;
+  /** Apply volume, playback speed and output device; takes effect live. */
+  setOutput(output: OutputSettings): Promise<void>;
+  /** PCM16 queued for an item, for replay; null where audio never reaches us (WebRTC). */
+  recordedAudio(itemId: string): Int16Array | null;
+  reset(): void;
+  dispose(): void;
+}
+
+export type AudioTransportOptions = {
+  recorder?: WavRecorder;
+  player?: WavStreamPlayer;
+};
+
+export function createAudioTransport(
+  kind: AudioTransportKind,
+  options: AudioTransportOptions = {}
+): AudioTransport {
+  return kind === 'webrtc'
+    ? new WebRtcAudioTransport()
+    : new WebSocketAudioTransport(options.recorder, options.player);
+}
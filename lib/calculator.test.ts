@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './calculator';
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence and parentheses', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('10 % 4')).toBe(2);
+    expect(evaluateExpression('-3 + 5')).toBe(2);
+  });
+
+  it('parses exponent literals without float error', () => {
+    expect(evaluateExpression('1.1e-1')).toBe(0.11);
+    expect(evaluateExpression('2.5E3')).toBe(2500);
+    expect(evaluateExpression('.5')).toBe(0.5);
+  });
+
+  it('knows its functions and constants', () => {
+    expect(evaluateExpression('sqrt(16)')).toBe(4);
+    expect(evaluateExpression('round(2.6) + abs(-1)')).toBe(4);
+    expect(evaluateExpression('PI')).toBe(Math.PI);
+  });
+
+  it('ignores names inherited from the prototype', () => {
+    expect(() => evaluateExpression('constructor')).toThrow('Unknown name "constructor"');
+    expect(() => evaluateExpression('constructor(1)')).toThrow('Unknown name "constructor"');
+  });
+
+  it('rejects malformed and non-finite input', () => {
+    expect(() => evaluateExpression('2 +')).toThrow();
+    expect(() => evaluateExpression('2 $ 3')).toThrow('Unexpected character "$"');
+    expect(() => evaluateExpression('1 / 0')).toThrow('Result is not a finite number');
+  });
+});
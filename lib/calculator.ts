@@ -0,0 +1,137 @@
+// Small arithmetic evaluator for the calculator tool. A recursive-descent
+// parser over numbers, + - * / % ^, parentheses and a few functions; nothing
+// is ever passed to eval().
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  ln: Math.log,
+  log: Math.log10,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?|\.\d+)(?:e([+-]?\d+))?|([a-z]+)|([-+*/%^(),]))/giy;
+  let match: RegExpExecArray | null;
+  let index = 0;
+
+  while (index < expression.length) {
+    pattern.lastIndex = index;
+    match = pattern.exec(expression);
+    if (!match || match[0].length === 0) {
+      if (!expression.slice(index).trim()) break;
+      throw new Error(`Unexpected character "${expression.slice(index).trim()[0]}"`);
+    }
+    index = pattern.lastIndex;
+
+    if (match[1] !== undefined) {
+      // Parse the literal whole; scaling by 10 ** exponent adds float error (1.1e-1)
+      tokens.push({ type: 'number', value: Number(match[0]) });
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: 'name', value: match[3].toLowerCase() });
+    } else {
+      tokens.push({ type: 'op', value: match[4] });
+    }
+  }
+  return tokens;
+}
+
+/** Evaluate an arithmetic expression. Throws with a readable message on bad input. */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression.replace(/×/g, '*').replace(/÷/g, '/'));
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const takeOp = (value: string) => {
+    const token = peek();
+    if (token?.type === 'op' && token.value === value) {
+      position++;
+      return true;
+    }
+    return false;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    for (;;) {
+      if (takeOp('+')) value += parseTerm();
+      else if (takeOp('-')) value -= parseTerm();
+      else return value;
+    }
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    for (;;) {
+      if (takeOp('*')) value *= parseUnary();
+      else if (takeOp('/')) value /= parseUnary();
+      else if (takeOp('%')) value %= parseUnary();
+      else return value;
+    }
+  };
+
+  // unary := ('-' | '+') unary | power   (so -2^2 is -(2^2))
+  const parseUnary = (): number => {
+    if (takeOp('-')) return -parseUnary();
+    if (takeOp('+')) return parseUnary();
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?   (right-associative)
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    return takeOp('^') ? base ** parseUnary() : base;
+  };
+
+  // primary := number | constant | function '(' expression ')' | '(' expression ')'
+  const parsePrimary = (): number => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'number') {
+      position++;
+      return token.value;
+    }
+
+    if (token.type === 'name') {
+      position++;
+      // Own keys only, so names like "constructor" aren't found on the prototype
+      if (Object.hasOwn(CONSTANTS, token.value)) return CONSTANTS[token.value];
+      if (!Object.hasOwn(FUNCTIONS, token.value)) throw new Error(`Unknown name "${token.value}"`);
+      const fn = FUNCTIONS[token.value];
+      if (!takeOp('(')) throw new Error(`Expected "(" after ${token.value}`);
+      const argument = parseExpression();
+      if (!takeOp(')')) throw new Error('Expected ")"');
+      return fn(argument);
+    }
+
+    if (takeOp('(')) {
+      const value = parseExpression();
+      if (!takeOp(')')) throw new Error('Expected ")"');
+      return value;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${String(tokens[position].value)}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('Result is not a finite number');
+  }
+  return result;
+}
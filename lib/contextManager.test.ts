@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TransportEvent } from '@openai/agents/realtime';
+import {
+  ContextManager,
+  estimateAudioTokens,
+  estimateTextTokens,
+  fitToBudget,
+  planCompaction,
+  ScopedTurn,
+  selectScope,
+} from './contextManager';
+
+const NOW = 100_000;
+
+// user @ 10s, assistant @ 20s, user @ 70s, user @ 80s, assistant @ 90s, user @ 95s
+const TURNS: ScopedTurn<string>[] = [
+  { role: 'user', at: 10_000, value: 'u1' },
+  { role: 'assistant', at: 20_000, value: 'a1' },
+  { role: 'user', at: 70_000, value: 'u2' },
+  { role: 'user', at: 80_000, value: 'u3' },
+  { role: 'assistant', at: 90_000, value: 'a2' },
+  { role: 'user', at: 95_000, value: 'u4' },
+];
+
+const values = (turns: ScopedTurn<string>[]) => turns.map((turn) => turn.value);
+
+describe('token estimates', () => {
+  it('counts ~4 characters per text token and audio by words', () => {
+    expect(estimateTextTokens('abcdefghi')).toBe(3);
+    expect(estimateAudioTokens('one two  three')).toBe(12);
+  });
+});
+
+describe('selectScope', () => {
+  it('takes turns that started in the last N seconds', () => {
+    expect(values(selectScope(TURNS, { kind: 'seconds', seconds: 30 }, NOW))).toEqual(['u2', 'u3', 'a2', 'u4']);
+  });
+
+  it('takes everything from the Nth-last user turn', () => {
+    expect(values(selectScope(TURNS, { kind: 'userTurns', turns: 2 }, NOW))).toEqual(['u3', 'a2', 'u4']);
+  });
+
+  it('takes everything after the previous assistant response', () => {
+    expect(values(selectScope(TURNS, { kind: 'sinceResponse' }, NOW))).toEqual(['u4']);
+  });
+
+  it('takes the whole session', () => {
+    expect(selectScope(TURNS, { kind: 'full' }, NOW)).toEqual(TURNS);
+  });
+
+  it('falls back to the newest turn when nothing is in scope', () => {
+    expect(values(selectScope(TURNS, { kind: 'seconds', seconds: 1 }, NOW))).toEqual(['u4']);
+    expect(values(selectScope(TURNS.slice(0, 2), { kind: 'sinceResponse' }, NOW))).toEqual(['a1']);
+  });
+});
+
+describe('fitToBudget', () => {
+  const tokensOf = (n: number) => n;
+
+  it('keeps the newest items that fit', () => {
+    expect(fitToBudget([5, 4, 3, 2], tokensOf, 6)).toEqual({ kept: [3, 2], dropped: 2, tokens: 5 });
+  });
+
+  it('always keeps the newest item', () => {
+    expect(fitToBudget([5, 40], tokensOf, 10)).toEqual({ kept: [40], dropped: 1, tokens: 40 });
+  });
+});
+
+describe('planCompaction', () => {
+  const tokensOf = (n: number) => n;
+
+  it('does nothing under the threshold or with few turns', () => {
+    expect(planCompaction([10, 10, 10, 10, 10], tokensOf, 100)).toBeNull();
+    expect(planCompaction([100, 100, 100, 100], tokensOf, 100)).toBeNull();
+  });
+
+  it('folds the oldest turns, keeping the newest within half the threshold', () => {
+    const items = [10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10];
+    // 120 > 100; the newest 50 tokens (5 items) stay
+    expect(planCompaction(items, tokensOf, 100)).toHaveLength(7);
+  });
+
+  it('keeps at least four turns', () => {
+    expect(planCompaction([60, 60, 60, 60, 60, 60], tokensOf, 100)).toHaveLength(2);
+  });
+});
+
+describe('ContextManager', () => {
+  afterEach(() => vi.useRealTimers());
+
+  const done = (id: string, text: string, status = 'completed') =>
+    ({
+      type: 'response.done',
+      response: { id, status, output: [{ content: [{ type: 'output_text', text }] }] },
+    }) as unknown as TransportEvent;
+
+  it('requests an out-of-band summary and keeps the result', () => {
+    const send = vi.fn();
+    const onSummary = vi.fn();
+    const context = new ContextManager(send);
+
+    expect(context.summarize([{ role: 'user', text: 'hello' }], onSummary)).toBe(true);
+    expect(context.summarize([{ role: 'user', text: 'again' }], onSummary)).toBe(false);
+
+    const request = send.mock.calls[0][0];
+    expect(request.type).toBe('response.create');
+    expect(request.response.conversation).toBe('none');
+    expect(request.response.output_modalities).toEqual(['text']);
+    expect(request.response.input[0].content[0].text).toContain('User: hello');
+
+    const created = { type: 'response.created', response: { id: 'resp_s', metadata: request.response.metadata } };
+    expect(context.handleTransportEvent(created as unknown as TransportEvent)).toBe(true);
+    expect(context.handleTransportEvent(done('resp_other', 'not ours'))).toBe(false);
+    expect(context.handleTransportEvent(done('resp_s', ' They said hello. '))).toBe(true);
+
+    expect(onSummary).toHaveBeenCalledWith('They said hello.');
+    expect(context.summary).toBe('They said hello.');
+    expect(context.isSummarizing).toBe(false);
+  });
+
+  it('includes the previous summary in the next request', () => {
+    const send = vi.fn();
+    const context = new ContextManager(send);
+    context.restoreSummary('Earlier: greetings.');
+
+    context.summarize([{ role: 'assistant', text: 'hi' }], () => {});
+    expect(send.mock.calls[0][0].response.input[0].content[0].text).toBe(
+      'Previous summary:\nEarlier: greetings.\n\nNew turns:\nAssistant: hi'
+    );
+  });
+
+  it('keeps the old summary when the response fails', () => {
+    const send = vi.fn();
+    const context = new ContextManager(send);
+    context.restoreSummary('kept');
+    context.summarize([{ role: 'user', text: 'x' }], () => {});
+
+    const metadata = send.mock.calls[0][0].response.metadata;
+    context.handleTransportEvent({ type: 'response.created', response: { id: 'r', metadata } } as unknown as TransportEvent);
+    context.handleTransportEvent(done('r', '', 'failed'));
+
+    expect(context.summary).toBe('kept');
+    expect(context.isSummarizing).toBe(false);
+  });
+
+  it('gives up on a summary that never finishes', () => {
+    vi.useFakeTimers();
+    const context = new ContextManager(vi.fn());
+    context.summarize([{ role: 'user', text: 'x' }], () => {});
+
+    vi.advanceTimersByTime(30_000);
+    expect(context.isSummarizing).toBe(false);
+  });
+});
@@ -0,0 +1,263 @@
+// Decides what context a triggered response sees.
+//
+// Each trigger declares a scope (selectScope: last N seconds, last N user
+// turns, since the previous response, or everything) and a token budget. At
+// trigger time the controller takes the turns in scope (plus the running
+// summary for whole-session scope) and keeps as many of the newest as fit
+// (fitToBudget). Between triggers, once the conversation outgrows the
+// largest budget, the oldest turns are folded into the running summary with
+// an out-of-band, text-only response (conversation: 'none', so it never joins
+// the conversation and is never played).
+//
+// Token counts are estimates: ~4 characters per text token, and audio is
+// costed by its estimated length rather than its transcript.
+
+import type { RealtimeItem, TransportEvent } from '@openai/agents/realtime';
+import type { TriggerContextScope } from './triggers';
+
+export type ContextTurn = {
+  role: 'user' | 'assistant' | 'system';
+  text: string;
+};
+
+// A turn as scope selection sees it; `at` is when it started (null if unknown)
+export type ScopedTurn<T> = {
+  role: ContextTurn['role'];
+  at: number | null;
+  value: T;
+};
+
+// Tag on out-of-band summary responses so their events can be told apart
+const SUMMARY_PURPOSE = 'context_summary';
+
+const CHARS_PER_TOKEN = 4;
+// Audio is billed by length: ~10 tokens per second, ~400ms per spoken word
+const AUDIO_TOKENS_PER_WORD = 4;
+
+// After compaction the newest turns use at most this share of the threshold,
+// leaving room to grow before the next one
+const KEEP_FRACTION = 0.5;
+const MIN_KEPT_TURNS = 4;
+
+// A summary that never finishes (dropped event, failed response) must not
+// block later compactions
+const SUMMARY_TIMEOUT_MS = 30000;
+
+const SUMMARY_INSTRUCTIONS = `You maintain a running summary of a live conversation for an assistant that gives short spoken hints.
+Merge the previous summary (if any) and the new turns into one updated summary.
+Keep names, numbers, decisions, open questions and anything the assistant already suggested.
+Write plain prose, at most 200 words. Output only the summary.`;
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateAudioTokens(transcript: string): number {
+  return transcript.split(/\s+/).filter(Boolean).length * AUDIO_TOKENS_PER_WORD;
+}
+
+/** Estimated tokens for a server conversation item, with text for its audio parts. */
+export function estimateItemTokens(item: RealtimeItem, text: string): number {
+  if (item.type !== 'message') return estimateTextTokens(text);
+  const isAudio = item.content.some((c) => c.type === 'input_audio' || c.type === 'output_audio');
+  return isAudio ? estimateAudioTokens(text) : estimateTextTokens(text);
+}
+
+/**
+ * Turns within a trigger's scope, oldest first. If nothing falls in scope the
+ * newest turn is used, so the model always has something to respond to.
+ */
+export function selectScope<T>(
+  turns: ScopedTurn<T>[],
+  scope: TriggerContextScope,
+  now = Date.now()
+): ScopedTurn<T>[] {
+  let selected: ScopedTurn<T>[];
+  switch (scope.kind) {
+    case 'full':
+      selected = turns;
+      break;
+    case 'seconds': {
+      const since = now - scope.seconds * 1000;
+      selected = turns.filter((turn) => turn.at !== null && turn.at >= since);
+      break;
+    }
+    case 'userTurns': {
+      let start = 0;
+      for (let i = turns.length - 1, seen = 0; i >= 0; i--) {
+        if (turns[i].role === 'user' && ++seen === scope.turns) {
+          start = i;
+          break;
+        }
+      }
+      selected = turns.slice(start);
+      break;
+    }
+    case 'sinceResponse': {
+      let start = 0;
+      for (let i = turns.length - 1; i >= 0; i--) {
+        if (turns[i].role === 'assistant') {
+          start = i + 1;
+          break;
+        }
+      }
+      selected = turns.slice(start);
+      break;
+    }
+  }
+  return selected.length > 0 ? selected : turns.slice(-1);
+}
+
+/** The newest items whose combined estimate fits the budget (at least one). */
+export function fitToBudget<T>(
+  items: T[],
+  tokensOf: (item: T) => number,
+  budget: number
+): { kept: T[]; dropped: number; tokens: number } {
+  let tokens = 0;
+  let start = items.length;
+  while (start > 0) {
+    const next = tokensOf(items[start - 1]);
+    if (start < items.length && tokens + next > budget) break;
+    tokens += next;
+    start--;
+  }
+  return { kept: items.slice(start), dropped: start, tokens };
+}
+
+/**
+ * The oldest items to fold into the summary once the total passes the
+ * threshold, or null if there is nothing to compact yet.
+ */
+export function planCompaction<T>(items: T[], tokensOf: (item: T) => number, threshold: number): T[] | null {
+  const total = items.reduce((sum, item) => sum + tokensOf(item), 0);
+  if (total <= threshold || items.length <= MIN_KEPT_TURNS) return null;
+
+  const { kept } = fitToBudget(items, tokensOf, threshold * KEEP_FRACTION);
+  const keep = Math.min(Math.max(kept.length, MIN_KEPT_TURNS), items.length);
+  const compacted = items.slice(0, items.length - keep);
+  return compacted.length > 0 ? compacted : null;
+}
+
+type PendingSummary = {
+  onSummary: (summary: string) => void;
+  responseId: string | null;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export class ContextManager {
+  private current: string | null = null;
+  private pending: PendingSummary | null = null;
+
+  constructor(private readonly send: (event: any) => void) {}
+
+  get summary(): string | null {
+    return this.current;
+  }
+
+  get isSummarizing(): boolean {
+    return this.pending !== null;
+  }
+
+  /** Start from a summary restored with a resumed session. */
+  restoreSummary(summary: string | null) {
+    this.current = summary;
+  }
+
+  /** Forget the summary and any request in flight (new session). */
+  reset() {
+    this.cancel();
+    this.current = null;
+  }
+
+  /** Drop a request in flight; its connection is gone. */
+  cancel() {
+    if (this.pending) clearTimeout(this.pending.timer);
+    this.pending = null;
+  }
+
+  /**
+   * Ask for an updated summary covering the current one plus `turns`.
+   * Returns false if a summary is already being generated.
+   */
+  summarize(turns: ContextTurn[], onSummary: (summary: string) => void): boolean {
+    if (this.pending || turns.length === 0) return false;
+
+    const transcript = turns
+      .map((turn) => `${turn.role === 'assistant' ? 'Assistant' : turn.role === 'system' ? 'Note' : 'User'}: ${turn.text}`)
+      .join('\n');
+    const prompt = this.current
+      ? `Previous summary:\n${this.current}\n\nNew turns:\n${transcript}`
+      : `New turns:\n${transcript}`;
+
+    console.log(`🗜️ Summarizing ${turns.length} older turns out of band...`);
+    this.pending = {
+      onSummary,
+      responseId: null,
+      timer: setTimeout(() => {
+        console.warn('⚠️ Context summary timed out');
+        this.pending = null;
+      }, SUMMARY_TIMEOUT_MS),
+    };
+
+    this.send({
+      type: 'response.create',
+      response: {
+        conversation: 'none',
+        output_modalities: ['text'],
+        instructions: SUMMARY_INSTRUCTIONS,
+        metadata: { purpose: SUMMARY_PURPOSE },
+        input: [
+          {
+            type: 'message',
+            role: 'user',
+            content: [{ type: 'input_text', text: prompt }],
+          },
+        ],
+      },
+    });
+    return true;
+  }
+
+  /**
+   * Consume events that belong to the summary response. Returns true if the
+   * event was ours and the caller should ignore it.
+   */
+  handleTransportEvent(event: TransportEvent): boolean {
+    // @ts-ignore - raw server events
+    const response = event.response;
+    if (event.type === 'response.created' && response?.metadata?.purpose === SUMMARY_PURPOSE) {
+      if (this.pending) this.pending.responseId = response.id;
+      return true;
+    }
+
+    const responseId: string | undefined =
+      // @ts-ignore
+      event.type === 'response.done' ? response?.id : event.response_id;
+    if (!this.pending?.responseId || responseId !== this.pending.responseId) {
+      return event.type === 'response.done' && response?.metadata?.purpose === SUMMARY_PURPOSE;
+    }
+
+    if (event.type === 'response.done') {
+      const { onSummary, timer } = this.pending;
+      clearTimeout(timer);
+      this.pending = null;
+
+      const text: string = (response?.output ?? [])
+        .flatMap((item: any) => item.content ?? [])
+        .filter((content: any) => content.type === 'output_text' || content.type === 'text')
+        .map((content: any) => content.text)
+        .join('')
+        .trim();
+
+      if (response?.status === 'completed' && text) {
+        console.log(`🗜️ Context summary updated (${estimateTextTokens(text)} tokens)`);
+        this.current = text;
+        onSummary(text);
+      } else {
+        console.warn('⚠️ Context summary failed:', response?.status_details ?? response?.status);
+      }
+    }
+    return true;
+  }
+}
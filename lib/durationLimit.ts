@@ -0,0 +1,64 @@
+// Keeps triggered responses near their target duration.
+//
+// A trigger's duration becomes a hard cap on output tokens (max_output_tokens)
+// and a playback limit of target × (1 + margin). Audio past the limit is never
+// played: the WebSocket transport fades the samples leading up to it and drops
+// the rest, the WebRTC transport ramps the element volume down and clears the
+// output buffer. The controller then cancels the response and truncates the
+// item to what was played.
+
+// Realtime output audio is 24 kHz 16-bit mono PCM
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+// Length of the fade that ends at the limit
+export const FADE_OUT_MS = 400;
+
+export const DEFAULT_DURATION_MARGIN = 0.25;
+
+// Output audio costs ~20 tokens per second, plus its transcript text
+const OUTPUT_TOKENS_PER_SECOND = 25;
+
+/** Milliseconds of audio in a base64 `response.output_audio.delta`. */
+export function audioDeltaMs(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = (base64.length * 3) / 4 - padding;
+  return (bytes / 2 / OUTPUT_SAMPLE_RATE) * 1000;
+}
+
+/** Playback limit for a target duration in seconds. */
+export function durationLimitMs(durationSeconds: number, margin: number): number {
+  return durationSeconds * 1000 * (1 + margin);
+}
+
+/** Token cap for response.create; a backstop slightly beyond the playback limit. */
+export function maxOutputTokensFor(durationSeconds: number, margin: number): number {
+  return Math.ceil(durationSeconds * (1 + margin) * OUTPUT_TOKENS_PER_SECOND);
+}
+
+/**
+ * Cut a chunk of PCM that starts `startMs` into its item at `limitMs`,
+ * fading out over the `fadeMs` before the limit. Returns a new array.
+ */
+export function applyFadeLimit(
+  samples: Int16Array,
+  startMs: number,
+  limitMs: number,
+  fadeMs: number,
+  sampleRate = OUTPUT_SAMPLE_RATE
+): { samples: Int16Array; reachedLimit: boolean } {
+  const msPerSample = 1000 / sampleRate;
+  const endMs = startMs + samples.length * msPerSample;
+  const fadeStartMs = limitMs - fadeMs;
+  if (endMs <= fadeStartMs) {
+    return { samples, reachedLimit: false };
+  }
+
+  const keep = Math.max(0, Math.min(samples.length, Math.floor((limitMs - startMs) / msPerSample)));
+  const faded = samples.slice(0, keep);
+  const fadeStart = Math.max(0, Math.ceil((fadeStartMs - startMs) / msPerSample));
+  for (let i = fadeStart; i < faded.length; i++) {
+    const gain = (limitMs - (startMs + i * msPerSample)) / fadeMs;
+    faded[i] = Math.round(faded[i] * Math.min(1, Math.max(0, gain)));
+  }
+  return { samples: faded, reachedLimit: endMs >= limitMs };
+}
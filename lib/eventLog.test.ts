@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { TransportEvent } from '@openai/agents/realtime';
+import { elideLargeFields, EventLog, EventRecord, matchesFilter, responseIdOf, toNdjson } from './eventLog';
+
+const AUDIO = `${'AAD/fwCA'.repeat(20)}AQ==`;
+
+function event(type: string, fields: Record<string, unknown> = {}): TransportEvent {
+  return { type, ...fields } as TransportEvent;
+}
+
+function record(type: string, preview: string): EventRecord {
+  return { seq: 1, at: 0, type, event: event(type), preview };
+}
+
+describe('elideLargeFields', () => {
+  it('replaces long base64 strings, however deeply nested', () => {
+    expect(elideLargeFields({ delta: AUDIO, nested: [{ audio: AUDIO }] })).toEqual({
+      delta: `<base64, ${AUDIO.length} chars>`,
+      nested: [{ audio: `<base64, ${AUDIO.length} chars>` }],
+    });
+  });
+
+  it('keeps long plain text searchable', () => {
+    const transcript = 'so the quarterly numbers look fine but the forecast for next year is off by a lot and we should talk about it';
+    const longText = `${transcript} ${transcript}`;
+    expect(elideLargeFields({ transcript: longText })).toEqual({ transcript: longText });
+  });
+
+  it('keeps strings that are not validly padded base64', () => {
+    const word = 'a'.repeat(121);
+    expect(elideLargeFields(word)).toBe(word);
+    expect(elideLargeFields(`${AUDIO.slice(0, 120)}=a`)).toBe(`${AUDIO.slice(0, 120)}=a`);
+  });
+
+  it('leaves short strings and other values alone', () => {
+    expect(elideLargeFields({ id: 'abc', n: 1, ok: true, none: null })).toEqual({ id: 'abc', n: 1, ok: true, none: null });
+  });
+});
+
+describe('responseIdOf', () => {
+  it('reads response_id or response.id', () => {
+    expect(responseIdOf(event('response.output_audio.delta', { response_id: 'resp_1' }))).toBe('resp_1');
+    expect(responseIdOf(event('response.done', { response: { id: 'resp_2' } }))).toBe('resp_2');
+    expect(responseIdOf(event('session.updated'))).toBeUndefined();
+  });
+});
+
+describe('matchesFilter', () => {
+  const filter = { type: '', search: '', hideAudioDeltas: false };
+
+  it('filters by type prefix', () => {
+    expect(matchesFilter(record('response.done', '{}'), { ...filter, type: 'response.' })).toBe(true);
+    expect(matchesFilter(record('session.updated', '{}'), { ...filter, type: 'response.' })).toBe(false);
+  });
+
+  it('hides audio deltas on request', () => {
+    const delta = record('response.output_audio.delta', '{}');
+    expect(matchesFilter(delta, { ...filter, hideAudioDeltas: true })).toBe(false);
+    expect(matchesFilter(delta, filter)).toBe(true);
+  });
+
+  it('searches the preview case-insensitively', () => {
+    const done = record('response.done', '{"transcript":"Good Question"}');
+    expect(matchesFilter(done, { ...filter, search: 'good question' })).toBe(true);
+    expect(matchesFilter(done, { ...filter, search: 'stopwatch' })).toBe(false);
+  });
+});
+
+describe('EventLog', () => {
+  let log: EventLog;
+
+  afterEach(() => log.dispose());
+
+  it('keeps only the newest events once full', () => {
+    log = new EventLog(3);
+    ['a', 'b', 'c', 'd', 'e'].forEach((type) => log.push(event(type)));
+
+    expect(log.records.map((r) => r.type)).toEqual(['c', 'd', 'e']);
+    expect(log.records.map((r) => r.seq)).toEqual([3, 4, 5]);
+    expect(log.dropped).toBe(2);
+  });
+
+  it('counts events seen while paused as dropped', () => {
+    log = new EventLog(10);
+    log.push(event('a'));
+    log.setPaused(true);
+    log.push(event('b'));
+    log.setPaused(false);
+    log.push(event('c'));
+
+    expect(log.records.map((r) => r.type)).toEqual(['a', 'c']);
+    expect(log.dropped).toBe(1);
+  });
+
+  it('stores an elided preview and the raw event', () => {
+    log = new EventLog();
+    const delta = event('response.output_audio.delta', { response_id: 'resp_1', delta: AUDIO });
+    log.push(delta);
+
+    const [stored] = log.records;
+    expect(stored.responseId).toBe('resp_1');
+    expect(stored.event).toBe(delta);
+    expect(stored.preview).not.toContain(AUDIO);
+    expect(JSON.parse(toNdjson(log.records)).event.delta).toBe(AUDIO);
+  });
+});
@@ -0,0 +1,174 @@
+// Bounded capture of transport events for the event inspector.
+//
+// Every transport event passes through here, audio deltas included,
+// so the log is a fixed-size ring buffer: once full, each new event replaces
+// the oldest. Records keep the raw event for export and a compact JSON
+// preview (long base64 fields elided) for display and search. Listeners are
+// told about changes at most every CHANGE_THROTTLE_MS, so a burst of deltas
+// costs one re-render.
+
+import type { TransportEvent } from '@openai/agents/realtime';
+import { TypedEventEmitter } from './typedEventEmitter';
+
+export type EventRecord = {
+  seq: number; // Increases across the whole capture, including dropped records
+  at: number; // ms
+  type: string;
+  responseId?: string;
+  event: TransportEvent;
+  preview: string; // JSON with large fields elided
+};
+
+export type EventFilter = {
+  type: string; // Exact type or prefix ("response.", "input_audio_buffer"); empty for all
+  search: string; // Case-insensitive, over the type and preview
+  hideAudioDeltas: boolean;
+};
+
+export type EventLogEvents = {
+  changed: [];
+};
+
+export const DEFAULT_EVENT_CAPACITY = 500;
+
+// Strings at least this long that are valid base64 are replaced in previews.
+// No whitespace and a padded length, so long plain text stays searchable.
+const ELIDE_MIN_LENGTH = 120;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+function isBase64(value: string): boolean {
+  return value.length % 4 === 0 && BASE64_PATTERN.test(value);
+}
+
+const CHANGE_THROTTLE_MS = 250;
+
+const AUDIO_DELTA_TYPE = 'response.output_audio.delta';
+
+/** Copy of a value with long base64 strings replaced by a length note. */
+export function elideLargeFields(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length >= ELIDE_MIN_LENGTH && isBase64(value)
+      ? `<base64, ${value.length} chars>`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(elideLargeFields);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, elideLargeFields(field)]));
+  }
+  return value;
+}
+
+export function responseIdOf(event: TransportEvent): string | undefined {
+  const raw = event as { response_id?: unknown; response?: { id?: unknown } };
+  const id = raw.response_id ?? raw.response?.id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+export function matchesFilter(record: EventRecord, filter: EventFilter): boolean {
+  if (filter.hideAudioDeltas && record.type === AUDIO_DELTA_TYPE) return false;
+  if (filter.type && !record.type.startsWith(filter.type)) return false;
+  if (filter.search) {
+    const search = filter.search.toLowerCase();
+    return record.type.toLowerCase().includes(search) || record.preview.toLowerCase().includes(search);
+  }
+  return true;
+}
+
+/** One raw event per line, oldest first. */
+export function toNdjson(records: readonly EventRecord[]): string {
+  return records
+    .map((record) => JSON.stringify({ seq: record.seq, at: new Date(record.at).toISOString(), event: record.event }))
+    .join('\n');
+}
+
+export function downloadNdjson(records: readonly EventRecord[]) {
+  const blob = new Blob([toNdjson(records) + '\n'], { type: 'application/x-ndjson;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `events-${stamp}.ndjson`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export class EventLog extends TypedEventEmitter<EventLogEvents> {
+  private buffer: (EventRecord | undefined)[];
+  private next = 0; // Slot the next record goes into
+  private size = 0;
+  private seq = 0;
+  private paused = false;
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(readonly capacity = DEFAULT_EVENT_CAPACITY) {
+    super();
+    this.buffer = new Array(capacity);
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Events seen but no longer held (overwritten, or arrived while paused). */
+  get dropped(): number {
+    return this.seq - this.size;
+  }
+
+  /** Held records, oldest first. */
+  get records(): EventRecord[] {
+    const start = (this.next - this.size + this.capacity) % this.capacity;
+    const records: EventRecord[] = [];
+    for (let i = 0; i < this.size; i++) {
+      records.push(this.buffer[(start + i) % this.capacity]!);
+    }
+    return records;
+  }
+
+  push(event: TransportEvent) {
+    this.seq++;
+    if (this.paused) return;
+
+    this.buffer[this.next] = {
+      seq: this.seq,
+      at: Date.now(),
+      type: event.type,
+      responseId: responseIdOf(event),
+      event,
+      preview: JSON.stringify(elideLargeFields(event)),
+    };
+    this.next = (this.next + 1) % this.capacity;
+    this.size = Math.min(this.size + 1, this.capacity);
+    this.scheduleChange();
+  }
+
+  /** Stop capturing (what is held stays for inspection) or resume. */
+  setPaused(paused: boolean) {
+    this.paused = paused;
+    this.scheduleChange();
+  }
+
+  clear() {
+    this.buffer = new Array(this.capacity);
+    this.next = 0;
+    this.size = 0;
+    this.seq = 0;
+    this.scheduleChange();
+  }
+
+  dispose() {
+    if (this.changeTimer) clearTimeout(this.changeTimer);
+    this.changeTimer = null;
+    this.removeAllListeners();
+  }
+
+  private scheduleChange() {
+    if (this.changeTimer) return;
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      this.emit('changed');
+    }, CHANGE_THROTTLE_MS);
+  }
+}
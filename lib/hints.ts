@@ -0,0 +1,27 @@
+// Hint type: one triggered response as the hint card, panel and pinned
+// overlay show it. Built and updated by the session controller.
+
+import type { TriggerDelivery } from './triggers';
+import type { TranscriptTrigger } from './transcript';
+
+// A triggered response, listed in the hint panel; text-only and spoken + text
+// responses are also shown in the card above the transcript
+export type Hint = {
+  id: string; // Response item id
+  triggerId: string;
+  label: string;
+  icon?: string;
+  custom: boolean; // A user-added trigger rather than a built-in one
+  delivery: TriggerDelivery;
+  source: TranscriptTrigger['source'];
+  phrase?: string; // Matched text for voice triggers, key combo for hotkeys
+  text: string;
+  timestamp: Date; // When it was triggered
+  isLive: boolean; // Still streaming
+  contextTokens: number; // Estimated tokens of conversation sent as input
+  contextTurns: number;
+  latencyMs?: number; // Trigger to first audible audio (or first text)
+  durationMs?: number; // Played audio length
+  limited?: boolean; // Faded out at the duration limit
+  replayable: boolean; // Audio cached for replay (WebSocket transport)
+};
@@ -0,0 +1,143 @@
+// Global keyboard control during a live call.
+//
+// Bindings are key combos written as text ("Alt+1", "Escape", "Space"):
+// modifiers in a fixed order, then the physical key from KeyboardEvent.code,
+// so they don't change with keyboard layout or Alt producing other
+// characters. Each trigger can have a combo, plus interrupt, mute and the
+// hold-to-talk key. Bare keys (no Ctrl/Alt/Meta) are ignored while typing in
+// a text field.
+
+export type HotkeyBindings = {
+  triggers: Record<string, string>; // Trigger id → combo
+  interrupt: string;
+  mute: string;
+  holdToTalk: string;
+};
+
+export type HotkeyHandlers = {
+  onTrigger: (triggerId: string) => void;
+  onInterrupt: () => void;
+  onMute: () => void;
+  // Only bound when hold-to-talk is on
+  onHoldStart?: () => void;
+  onHoldEnd?: () => void;
+};
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  triggers: {
+    quickHint: 'Alt+1',
+    fullGuidance: 'Alt+2',
+  },
+  interrupt: 'Escape',
+  mute: 'Alt+M',
+  holdToTalk: 'Space',
+};
+
+const MODIFIER_CODES = new Set([
+  'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight',
+  'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight',
+]);
+
+function keyName(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+}
+
+/** The combo for a key press, or null for a lone modifier. */
+export function hotkeyFromEvent(event: KeyboardEvent): string | null {
+  if (!event.code || MODIFIER_CODES.has(event.code)) return null;
+
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  if (event.metaKey) parts.push('Meta');
+  parts.push(keyName(event.code));
+  return parts.join('+');
+}
+
+/** Combos bound to more than one action. */
+export function findHotkeyConflicts(bindings: HotkeyBindings, triggerIds: string[]): Set<string> {
+  const combos = [
+    ...triggerIds.map((id) => bindings.triggers[id]),
+    bindings.interrupt,
+    bindings.mute,
+    bindings.holdToTalk,
+  ].filter(Boolean);
+  return new Set(combos.filter((combo, i) => combos.indexOf(combo) !== i));
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+  return target.tagName === 'INPUT' && !['checkbox', 'radio', 'button', 'submit'].includes((target as HTMLInputElement).type);
+}
+
+/**
+ * Listen for the bound combos on `target` until the returned function is
+ * called. Matched keys don't reach the page (so Space doesn't scroll or
+ * press the focused button).
+ */
+export function bindHotkeys(
+  target: Window,
+  bindings: HotkeyBindings,
+  handlers: HotkeyHandlers
+): () => void {
+  const byCombo = new Map<string, () => void>();
+  Object.entries(bindings.triggers).forEach(([id, combo]) => {
+    if (combo) byCombo.set(combo, () => handlers.onTrigger(id));
+  });
+  if (bindings.interrupt) byCombo.set(bindings.interrupt, handlers.onInterrupt);
+  if (bindings.mute) byCombo.set(bindings.mute, handlers.onMute);
+
+  const holdEnabled = Boolean(bindings.holdToTalk && handlers.onHoldStart);
+  let heldCode: string | null = null; // Released by key, whatever modifiers are up by then
+
+  const endHold = () => {
+    if (heldCode === null) return;
+    heldCode = null;
+    handlers.onHoldEnd?.();
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    const combo = hotkeyFromEvent(event);
+    if (!combo) return;
+    const hasModifier = event.ctrlKey || event.altKey || event.metaKey;
+    if (!hasModifier && isTextField(event.target)) return;
+
+    if (holdEnabled && combo === bindings.holdToTalk) {
+      event.preventDefault();
+      if (!event.repeat && heldCode === null) {
+        heldCode = event.code;
+        handlers.onHoldStart!();
+      }
+      return;
+    }
+
+    const action = byCombo.get(combo);
+    if (!action) return;
+    event.preventDefault();
+    if (!event.repeat) action();
+  };
+
+  const onKeyUp = (event: KeyboardEvent) => {
+    if (event.code === heldCode) {
+      event.preventDefault();
+      endHold();
+    }
+  };
+
+  // Switching windows mid-hold never delivers the keyup
+  const onBlur = () => endHold();
+
+  target.addEventListener('keydown', onKeyDown);
+  target.addEventListener('keyup', onKeyUp);
+  target.addEventListener('blur', onBlur);
+  return () => {
+    endHold();
+    target.removeEventListener('keydown', onKeyDown);
+    target.removeEventListener('keyup', onKeyUp);
+    target.removeEventListener('blur', onBlur);
+  };
+}
@@ -0,0 +1,27 @@
+// Microphone enumeration for the input device picker.
+//
+// Listing goes through WavRecorder.listDevices, which asks for mic permission
+// first (device labels are empty without it) and puts the system default
+// first. A null device id means "follow the system default".
+
+import { WavRecorder } from 'wavtools';
+
+export type InputDevice = {
+  deviceId: string;
+  label: string;
+  isDefault: boolean;
+};
+
+export async function listInputDevices(recorder = new WavRecorder({ sampleRate: 24000 })): Promise<InputDevice[]> {
+  const devices = await recorder.listDevices();
+  return devices.map((device, i) => ({
+    deviceId: device.deviceId,
+    label: device.label || `Microphone ${i + 1}`,
+    isDefault: Boolean(device.default),
+  }));
+}
+
+/** getUserMedia constraints for a device (null: system default). */
+export function inputConstraints(deviceId: string | null): MediaStreamConstraints {
+  return { audio: deviceId ? { deviceId: { exact: deviceId } } : true };
+}
@@ -0,0 +1,48 @@
+// Input level metering and dead-mic detection.
+//
+// Levels are linear (0–1 of full scale): RMS for the meter bar, peak for the
+// hold marker. The transports measure what they capture (PCM chunks on
+// WebSocket, an AnalyserNode on the outgoing track on WebRTC). A peak below
+// NO_AUDIO_PEAK is treated as no signal at all: even a quiet room with noise
+// suppression sits above it, a muted or disconnected device does not.
+
+export type InputLevel = {
+  rms: number;
+  peak: number;
+};
+
+export const NO_AUDIO_PEAK = 0.001; // -60 dBFS
+
+// Capturing this long without a signal shows a warning
+export const NO_AUDIO_WARNING_SECONDS = 5;
+
+export function measurePcm16(samples: Int16Array): InputLevel {
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]) / 32768;
+    sumSquares += value * value;
+    if (value > peak) peak = value;
+  }
+  return { rms: samples.length ? Math.sqrt(sumSquares / samples.length) : 0, peak };
+}
+
+export function measureFloat32(samples: Float32Array): InputLevel {
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    sumSquares += value * value;
+    if (value > peak) peak = value;
+  }
+  return { rms: samples.length ? Math.sqrt(sumSquares / samples.length) : 0, peak };
+}
+
+export function toDbfs(level: number): number {
+  return 20 * Math.log10(Math.max(level, 1e-6));
+}
+
+/** Map a linear level onto 0–1 for display (-60 dBFS … 0 dBFS). */
+export function meterPosition(level: number): number {
+  return Math.min(1, Math.max(0, (toDbfs(level) + 60) / 60));
+}
@@ -0,0 +1,49 @@
+// Transcription and response languages.
+//
+// The codes are the token action's allowlist (ISO 639-1), so whatever the
+// settings offer the server accepts. Transcription can be pinned to one
+// language or left to auto-detect (no `language` in the session config); the
+// response language is either fixed or follows whoever spoke last. The
+// response language reaches the model through the agent instructions and the
+// {language} placeholder in trigger templates.
+
+import type { ALLOWED_LANGUAGES } from '@/app/server/tokenConfig';
+
+export type LanguageCode = (typeof ALLOWED_LANGUAGES)[number];
+
+export type TranscriptionLanguage = LanguageCode | 'auto';
+export type ResponseLanguage = LanguageCode | 'same';
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese (Mandarin)',
+  hi: 'Hindi',
+  ar: 'Arabic',
+  ru: 'Russian',
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_NAMES) as LanguageCode[];
+
+export const DEFAULT_TRANSCRIPTION_LANGUAGE: TranscriptionLanguage = 'en';
+export const DEFAULT_RESPONSE_LANGUAGE: ResponseLanguage = 'en';
+
+/** Sentence for instructions: which language to respond in. */
+export function languageInstruction(language: ResponseLanguage): string {
+  if (language === 'same') {
+    return 'RESPOND IN THE LANGUAGE THE USER IS SPEAKING (if they switch, follow the most recent one).';
+  }
+  return `RESPOND IN ${LANGUAGE_NAMES[language].toUpperCase()} ONLY.`;
+}
+
+/** `language` for the transcription config; undefined lets the model detect it. */
+export function transcriptionLanguageCode(language: TranscriptionLanguage): LanguageCode | undefined {
+  return language === 'auto' ? undefined : language;
+}
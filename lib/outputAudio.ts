@@ -0,0 +1,128 @@
+// Output audio: the agent's voice and live playback controls.
+//
+// The voice is part of the session config (token request, RealtimeSession,
+// session.update) and is fixed per connection. Volume, playback speed and
+// output device apply live through AudioTransport.setOutput:
+// - websocket: a GainNode after WavStreamPlayer, PCM resampled before it is
+//   queued (which also shifts pitch), AudioContext.setSinkId
+// - webrtc: the <audio> element's volume and setSinkId; a live stream can't
+//   change speed
+// Output device selection needs setSinkId, which not every browser has.
+// Replays and previews are played apart from the session, with the same
+// output settings.
+
+import type { ALLOWED_VOICES } from '@/app/server/tokenConfig';
+
+export type Voice = (typeof ALLOWED_VOICES)[number];
+
+export const VOICE_LABELS: Record<Voice, string> = {
+  alloy: 'Alloy',
+  ash: 'Ash',
+  ballad: 'Ballad',
+  cedar: 'Cedar',
+  coral: 'Coral',
+  echo: 'Echo',
+  marin: 'Marin',
+  sage: 'Sage',
+  shimmer: 'Shimmer',
+  verse: 'Verse',
+};
+
+export const VOICES = Object.keys(VOICE_LABELS) as Voice[];
+
+export const DEFAULT_VOICE: Voice = 'alloy';
+
+export type OutputSettings = {
+  volume: number; // 0–1
+  playbackRate: number; // 1 = normal speed
+  deviceId: string | null; // null: system default output
+};
+
+export const DEFAULT_OUTPUT: OutputSettings = {
+  volume: 1,
+  playbackRate: 1,
+  deviceId: null,
+};
+
+export const MIN_PLAYBACK_RATE = 0.75;
+export const MAX_PLAYBACK_RATE = 1.5;
+
+export type OutputDevice = {
+  deviceId: string;
+  label: string;
+};
+
+export function supportsOutputDeviceSelection(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+/** Speakers/headphones to route hints to; labels need mic permission first. */
+export async function listOutputDevices(): Promise<OutputDevice[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'audiooutput' && device.deviceId !== 'default')
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Output ${i + 1}` }));
+}
+
+/** Speed up or slow down PCM by resampling (linear interpolation). */
+export function resamplePcm16(samples: Int16Array, rate: number): Int16Array {
+  if (rate === 1 || samples.length === 0) return samples;
+
+  const length = Math.max(1, Math.round(samples.length / rate));
+  const output = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = i * rate;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = Math.round(samples[Math.min(index, samples.length - 1)] * (1 - fraction) + samples[next] * fraction);
+  }
+  return output;
+}
+
+/** Play a base64 preview clip with the current output settings; resolves when it finishes. */
+export async function playPreview(base64: string, mimeType: string, output: OutputSettings): Promise<void> {
+  const audio = new Audio(`data:${mimeType};base64,${base64}`);
+  audio.volume = output.volume;
+  audio.playbackRate = output.playbackRate;
+  if (output.deviceId && supportsOutputDeviceSelection()) {
+    await audio.setSinkId(output.deviceId);
+  }
+
+  // play() settles once playback starts; wait for the clip to end (or fail to decode)
+  const finished = new Promise<void>((resolve, reject) => {
+    audio.onended = () => resolve();
+    audio.onerror = () => reject(audio.error ?? new Error('Preview playback failed'));
+  });
+  await Promise.all([audio.play(), finished]);
+}
+
+/** Replay PCM16 audio (e.g. a cached response) with the current output settings. */
+export async function playPcm16(samples: Int16Array, sampleRate: number, output: OutputSettings): Promise<void> {
+  const context = new AudioContext() as AudioContext & { setSinkId?(sinkId: string): Promise<void> };
+  try {
+    if (output.deviceId && context.setSinkId) {
+      await context.setSinkId(output.deviceId);
+    }
+
+    const buffer = context.createBuffer(1, samples.length, sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+      channel[i] = samples[i] / 32768;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = output.playbackRate;
+    const gain = context.createGain();
+    gain.gain.value = output.volume;
+    source.connect(gain).connect(context.destination);
+
+    await new Promise<void>((resolve) => {
+      source.onended = () => resolve();
+      source.start();
+    });
+  } finally {
+    void context.close();
+  }
+}
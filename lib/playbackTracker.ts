@@ -0,0 +1,267 @@
+// Per-item playback tracking on top of WavStreamPlayer.
+//
+// WavStreamPlayer only exposes a sample offset for the track it is currently
+// writing and a 'stop' message from its worklet when the queue runs dry. The
+// tracker keeps count of the samples queued for each response item (the
+// trackId passed to add16BitPCM), polls the offset while anything is queued
+// and turns that into "started" / "finished" events for what is actually
+// audible.
+
+import type { WavStreamPlayer } from 'wavtools';
+import { TypedEventEmitter } from './typedEventEmitter';
+
+export type PlaybackFinishedInfo = {
+  playedMs: number;
+  queuedMs: number;
+  interrupted: boolean;
+};
+
+export type PlaybackInterruptResult = {
+  itemId: string;
+  playedMs: number; // What the user actually heard of this item
+  queuedMs: number;
+};
+
+export type PlaybackTrackerEvents = {
+  playbackStarted: [itemId: string];
+  playbackProgress: [itemId: string, playedMs: number, queuedMs: number];
+  playbackFinished: [itemId: string, info: PlaybackFinishedInfo];
+};
+
+type TrackedItem = {
+  queuedSamples: number;
+  baseSamples: number; // Samples played on earlier streams (after an underrun)
+  streamSamples: number; // Samples played on the current stream
+  started: boolean;
+  complete: boolean; // Server finished sending audio for this item
+  finished: boolean;
+  interrupted: boolean;
+};
+
+type TrackOffset = { trackId: string | null; offset: number; currentTime: number } | null;
+
+/**
+ * Cut a transcript down to roughly the part that was heard, assuming speech
+ * is evenly paced across the item's audio. Cuts on a word boundary.
+ */
+export function trimTranscriptToHeard(
+  text: string,
+  heard: Pick<PlaybackInterruptResult, 'playedMs' | 'queuedMs'>
+): string {
+  if (heard.queuedMs <= 0) return text;
+  const fraction = Math.min(1, Math.max(0, heard.playedMs / heard.queuedMs));
+  if (fraction >= 0.98) return text;
+
+  const cut = Math.floor(text.length * fraction);
+  const boundary = text.lastIndexOf(' ', cut);
+  return text.slice(0, boundary > 0 ? boundary : cut).trim();
+}
+
+// The stream worklet plays in 128-sample frames; a trailing partial frame is
+// never played, so treat anything within one frame of the end as finished
+const FRAME_SAMPLES = 128;
+
+export class PlaybackTracker extends TypedEventEmitter<PlaybackTrackerEvents> {
+  private items = new Map<string, TrackedItem>();
+  private observedStream: WavStreamPlayer['stream'] = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly player: WavStreamPlayer,
+    private readonly pollIntervalMs = 100
+  ) {
+    super();
+  }
+
+  /** True while any item has queued audio that has not finished playing. */
+  get isActive(): boolean {
+    for (const item of this.items.values()) {
+      if (!item.finished && item.queuedSamples > 0) return true;
+    }
+    return false;
+  }
+
+  /** True once some queued audio has actually become audible and not finished. */
+  get isAudible(): boolean {
+    for (const item of this.items.values()) {
+      if (item.started && !item.finished) return true;
+    }
+    return false;
+  }
+
+  getPlayedMs(itemId: string): number {
+    const item = this.items.get(itemId);
+    return item ? this.toMs(item.baseSamples + item.streamSamples) : 0;
+  }
+
+  getQueuedMs(itemId: string): number {
+    const item = this.items.get(itemId);
+    return item ? this.toMs(item.queuedSamples) : 0;
+  }
+
+  enqueue(itemId: string, samples: Int16Array) {
+    const item = this.getOrCreate(itemId);
+    if (item.interrupted) return;
+
+    this.player.add16BitPCM(samples, itemId);
+    item.queuedSamples += samples.length;
+    item.finished = false;
+
+    this.observeStream();
+    this.startPolling();
+  }
+
+  /** The server will not send more audio for this item. */
+  markComplete(itemId: string) {
+    const item = this.items.get(itemId);
+    if (!item) return;
+
+    item.complete = true;
+    // Everything may already have played out (e.g. after an underrun)
+    if (!this.player.stream) {
+      this.finishItem(itemId, item, false);
+    }
+  }
+
+  /**
+   * Stop playback immediately. Returns how much of the interrupted item was
+   * heard, or null if nothing was playing.
+   */
+  async interrupt(): Promise<PlaybackInterruptResult | null> {
+    this.stopPolling();
+    const offset = (await this.player.interrupt()) as TrackOffset;
+
+    let result: PlaybackInterruptResult | null = null;
+    if (offset?.trackId) {
+      const item = this.items.get(offset.trackId);
+      if (item) {
+        item.streamSamples = offset.offset;
+        result = {
+          itemId: offset.trackId,
+          playedMs: this.toMs(item.baseSamples + item.streamSamples),
+          queuedMs: this.toMs(item.queuedSamples),
+        };
+      }
+    }
+
+    this.items.forEach((item, itemId) => {
+      item.interrupted = true;
+      this.finishItem(itemId, item, true);
+    });
+    return result;
+  }
+
+  /** Forget all tracked items (e.g. on disconnect). */
+  reset() {
+    this.stopPolling();
+    this.items.clear();
+    this.observedStream = null;
+  }
+
+  dispose() {
+    this.reset();
+    this.removeAllListeners();
+  }
+
+  private getOrCreate(itemId: string): TrackedItem {
+    let item = this.items.get(itemId);
+    if (!item) {
+      item = {
+        queuedSamples: 0,
+        baseSamples: 0,
+        streamSamples: 0,
+        started: false,
+        complete: false,
+        finished: false,
+        interrupted: false,
+      };
+      this.items.set(itemId, item);
+    }
+    return item;
+  }
+
+  private toMs(samples: number): number {
+    return Math.round((samples / this.player.sampleRate) * 1000);
+  }
+
+  // The worklet posts 'stop' when its queue is empty: everything queued so
+  // far has been played. Items still streaming (underrun) continue on the
+  // next stream the player creates, whose offsets start again from zero.
+  private observeStream() {
+    const stream = this.player.stream;
+    if (!stream || stream === this.observedStream) return;
+
+    this.observedStream = stream;
+    stream.port.addEventListener('message', (e: MessageEvent) => {
+      if (e.data?.event !== 'stop') return;
+
+      this.items.forEach((item, itemId) => {
+        if (item.finished || item.interrupted) return;
+        item.baseSamples = item.queuedSamples;
+        item.streamSamples = 0;
+        this.markStarted(itemId, item);
+        if (item.complete) {
+          this.finishItem(itemId, item, false);
+        }
+      });
+
+      if (!this.isActive) {
+        this.stopPolling();
+      }
+    });
+  }
+
+  private startPolling() {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs);
+  }
+
+  private stopPolling() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async poll() {
+    if (this.polling || !this.player.stream) return;
+    this.polling = true;
+    try {
+      const offset = (await this.player.getTrackSampleOffset()) as TrackOffset;
+      if (!offset?.trackId) return;
+
+      const item = this.items.get(offset.trackId);
+      if (!item || item.finished) return;
+
+      item.streamSamples = offset.offset;
+      const played = item.baseSamples + item.streamSamples;
+      if (played > 0) {
+        this.markStarted(offset.trackId, item);
+      }
+      this.emit('playbackProgress', offset.trackId, this.toMs(played), this.toMs(item.queuedSamples));
+
+      if (item.complete && item.queuedSamples - played < FRAME_SAMPLES) {
+        this.finishItem(offset.trackId, item, false);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private markStarted(itemId: string, item: TrackedItem) {
+    if (item.started) return;
+    item.started = true;
+    this.emit('playbackStarted', itemId);
+  }
+
+  private finishItem(itemId: string, item: TrackedItem, interrupted: boolean) {
+    if (item.finished || item.queuedSamples === 0) return;
+    item.finished = true;
+    this.emit('playbackFinished', itemId, {
+      playedMs: this.toMs(item.baseSamples + item.streamSamples),
+      queuedMs: this.toMs(item.queuedSamples),
+      interrupted,
+    });
+  }
+}
@@ -0,0 +1,96 @@
+// Retries a reconnect with exponential backoff and jitter.
+//
+// The supervisor knows nothing about sessions; it runs the attempt function it
+// is given until one resolves, the attempts run out or it is cancelled.
+// Errors carrying retryAfterMs (e.g. a rate-limited token request) stretch
+// the next delay to at least that long.
+
+import { TypedEventEmitter } from './typedEventEmitter';
+
+export type ReconnectPolicy = {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  maxAttempts: number;
+};
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 15_000,
+  multiplier: 2,
+  maxAttempts: 6,
+};
+
+export type ReconnectSupervisorEvents = {
+  attempt: [attempt: number, delayMs: number];
+  recovered: [attempts: number];
+  gaveUp: [error: unknown];
+};
+
+export class ReconnectSupervisor extends TypedEventEmitter<ReconnectSupervisorEvents> {
+  private run: number | null = null; // Id of the active run; cancel() bumps it
+  private nextRun = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY) {
+    super();
+  }
+
+  get isActive(): boolean {
+    return this.run !== null;
+  }
+
+  /** Start retrying. Ignored if a run is already in progress. */
+  start(attemptReconnect: (attempt: number) => Promise<void>) {
+    if (this.run !== null) return;
+    const run = ++this.nextRun;
+    this.run = run;
+    void this.loop(run, attemptReconnect);
+  }
+
+  cancel() {
+    this.run = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async loop(run: number, attemptReconnect: (attempt: number) => Promise<void>) {
+    let lastError: unknown = null;
+
+    for (let attempt = 1; attempt <= this.policy.maxAttempts; attempt++) {
+      const delayMs = this.delayFor(attempt, lastError);
+      this.emit('attempt', attempt, delayMs);
+      await new Promise<void>((resolve) => {
+        this.timer = setTimeout(resolve, delayMs);
+      });
+      if (this.run !== run) return;
+
+      try {
+        await attemptReconnect(attempt);
+        if (this.run !== run) return;
+        this.run = null;
+        this.emit('recovered', attempt);
+        return;
+      } catch (error) {
+        if (this.run !== run) return;
+        console.warn(`🔁 Reconnect attempt ${attempt} failed:`, error);
+        lastError = error;
+      }
+    }
+
+    this.run = null;
+    this.emit('gaveUp', lastError);
+  }
+
+  private delayFor(attempt: number, lastError: unknown): number {
+    const base = Math.min(
+      this.policy.maxDelayMs,
+      this.policy.initialDelayMs * this.policy.multiplier ** (attempt - 1)
+    );
+    const jittered = base * (0.8 + Math.random() * 0.4);
+    const retryAfter = (lastError as { retryAfterMs?: number } | null)?.retryAfterMs ?? 0;
+    return Math.round(Math.max(jittered, retryAfter));
+  }
+}
@@ -0,0 +1,216 @@
+// Local lexical index over reference documents the user supplies.
+//
+// Documents are split into passages of a few paragraphs (each carrying the
+// nearest Markdown heading) and ranked with BM25. Everything runs in the
+// browser; nothing is embedded or sent anywhere until a trigger injects the
+// top passages into its response.
+
+import { normalizeText } from './triggerMatcher';
+
+export type ReferenceDocument = {
+  id: string;
+  name: string;
+  text: string;
+};
+
+export type ReferencePassage = {
+  documentId: string;
+  documentName: string;
+  heading?: string;
+  text: string;
+  score: number;
+};
+
+type Chunk = {
+  documentId: string;
+  documentName: string;
+  heading?: string;
+  text: string;
+  terms: Map<string, number>;
+  length: number;
+};
+
+// Passage size target, in words
+const CHUNK_WORDS = 120;
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Too common to say anything about relevance
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by do for from has have he her his how i if in is it its ' +
+    'me my of on or our she so that the their them then there they this to us was we ' +
+    'were what when which who will with you your'
+  ).split(' ')
+);
+
+// normalizeText splits scripts written without spaces into single characters
+const UNSPACED_CHAR = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]$/u;
+
+// Words, minus stopwords and single letters. Runs of unspaced-script
+// characters become overlapping bigrams ("参考文档" → 参考, 考文, 文档), which
+// rank far better than single characters.
+function terms(text: string): string[] {
+  const result: string[] = [];
+  let run: string[] = [];
+
+  const flushRun = () => {
+    if (run.length === 1) result.push(run[0]);
+    for (let i = 0; i + 1 < run.length; i++) {
+      result.push(run[i] + run[i + 1]);
+    }
+    run = [];
+  };
+
+  for (const word of normalizeText(text).split(' ')) {
+    if (UNSPACED_CHAR.test(word)) {
+      run.push(word);
+      continue;
+    }
+    flushRun();
+    if (word.length > 1 && !STOPWORDS.has(word)) result.push(word);
+  }
+  flushRun();
+  return result;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Paragraph runs of about CHUNK_WORDS, never crossing a heading. Oversized
+// paragraphs are split on sentence boundaries.
+function chunkDocument(document: ReferenceDocument): { heading?: string; text: string }[] {
+  const chunks: { heading?: string; text: string }[] = [];
+  let heading: string | undefined;
+  let current: string[] = [];
+  let currentWords = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push({ heading, text: current.join('\n\n') });
+    }
+    current = [];
+    currentWords = 0;
+  };
+
+  const add = (piece: string) => {
+    const words = wordCount(piece);
+    if (currentWords > 0 && currentWords + words > CHUNK_WORDS) flush();
+    current.push(piece);
+    currentWords += words;
+  };
+
+  document.text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .forEach((paragraph) => {
+      const headingMatch = /^#{1,6}\s+(.+)$/.exec(paragraph.split('\n')[0]);
+      if (headingMatch) {
+        flush();
+        heading = headingMatch[1].trim();
+        paragraph = paragraph.split('\n').slice(1).join('\n').trim();
+        if (!paragraph) return;
+      }
+
+      if (wordCount(paragraph) <= CHUNK_WORDS) {
+        add(paragraph);
+      } else {
+        (paragraph.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [paragraph])
+          .map((sentence) => sentence.trim())
+          .filter(Boolean)
+          .forEach(add);
+      }
+    });
+  flush();
+
+  return chunks;
+}
+
+export class ReferenceIndex {
+  private chunks: Chunk[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(documents: ReferenceDocument[] = []) {
+    this.setDocuments(documents);
+  }
+
+  get isEmpty(): boolean {
+    return this.chunks.length === 0;
+  }
+
+  get passageCount(): number {
+    return this.chunks.length;
+  }
+
+  /** Rebuild the index from scratch. */
+  setDocuments(documents: ReferenceDocument[]) {
+    this.chunks = [];
+    this.documentFrequency.clear();
+
+    documents.forEach((document) => {
+      chunkDocument(document).forEach(({ heading, text }) => {
+        const chunkTerms = terms(heading ? `${heading} ${text}` : text);
+        const counts = new Map<string, number>();
+        chunkTerms.forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+        counts.forEach((_, term) =>
+          this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1)
+        );
+
+        this.chunks.push({
+          documentId: document.id,
+          documentName: document.name,
+          heading,
+          text,
+          terms: counts,
+          length: chunkTerms.length,
+        });
+      });
+    });
+
+    this.averageLength =
+      this.chunks.reduce((sum, chunk) => sum + chunk.length, 0) / Math.max(this.chunks.length, 1);
+  }
+
+  /** Best-scoring passages for a free-text query, highest first. */
+  search(query: string, limit: number): ReferencePassage[] {
+    const queryTerms = new Set(terms(query));
+    if (queryTerms.size === 0 || this.chunks.length === 0) return [];
+
+    const total = this.chunks.length;
+    return this.chunks
+      .map((chunk) => {
+        let score = 0;
+        queryTerms.forEach((term) => {
+          const frequency = chunk.terms.get(term);
+          if (!frequency) return;
+          const df = this.documentFrequency.get(term) ?? 0;
+          const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+          const norm = K1 * (1 - B + (B * chunk.length) / (this.averageLength || 1));
+          score += (idf * frequency * (K1 + 1)) / (frequency + norm);
+        });
+        return { chunk, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => ({
+        documentId: chunk.documentId,
+        documentName: chunk.documentName,
+        heading: chunk.heading,
+        text: chunk.text,
+        score,
+      }));
+  }
+}
+
+/** One passage as plain text, labelled with its source. */
+export function formatPassage(passage: ReferencePassage): string {
+  const source = passage.heading ? `${passage.documentName} › ${passage.heading}` : passage.documentName;
+  return `[${source}]\n${passage.text}`;
+}
@@ -0,0 +1,140 @@
+// IndexedDB persistence for settings and past sessions.
+//
+// A session record holds everything needed to read a conversation back or
+// resume it: the settings it ran with, the transcript items and the text-mode
+// conversation history. Records are rewritten whole on every save; they are
+// small compared to IndexedDB limits even for hour-long sessions.
+
+import type { VoiceSettings } from './settings';
+import type { TranscriptItem } from './transcript';
+import type { TextHistoryMessage } from './triggerSessionController';
+import { upgradeTrigger } from './triggers';
+import type { OutputSettings } from './outputAudio';
+
+export type StoredSession = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  title: string;
+  settings: VoiceSettings;
+  transcripts: TranscriptItem[];
+  textHistory: TextHistoryMessage[];
+};
+
+export type StoredSessionSummary = Pick<
+  StoredSession,
+  'id' | 'createdAt' | 'updatedAt' | 'title'
+> & { itemCount: number };
+
+const DB_NAME = 'voice-agent-demo';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'current';
+const OUTPUT_KEY = 'output'; // Kept apart: output changes live, without a new controller
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function createSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function sessionTitle(transcripts: TranscriptItem[], createdAt: number): string {
+  const firstUser = transcripts.find((t) => t.role === 'user' && t.text.trim());
+  const date = new Date(createdAt).toLocaleString();
+  if (!firstUser) return date;
+
+  const text = firstUser.text.trim();
+  return `${date} – ${text.length > 40 ? `${text.slice(0, 40)}…` : text}`;
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+  await withStore(SESSIONS_STORE, 'readwrite', (store) => store.put(session));
+}
+
+export async function loadSession(id: string): Promise<StoredSession | undefined> {
+  return withStore<StoredSession | undefined>(SESSIONS_STORE, 'readonly', (store) => store.get(id));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(SESSIONS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/** All stored sessions, most recently updated first. */
+export async function listSessions(): Promise<StoredSessionSummary[]> {
+  const sessions = await withStore<StoredSession[]>(SESSIONS_STORE, 'readonly', (store) =>
+    store.getAll()
+  );
+  return sessions
+    .map(({ id, createdAt, updatedAt, title, transcripts }) => ({
+      id,
+      createdAt,
+      updatedAt,
+      title,
+      itemCount: transcripts.length,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveSettings(settings: VoiceSettings): Promise<void> {
+  await withStore(SETTINGS_STORE, 'readwrite', (store) => store.put(settings, SETTINGS_KEY));
+}
+
+export async function loadSettings(): Promise<Partial<VoiceSettings> | undefined> {
+  const settings = await withStore<Partial<VoiceSettings> | undefined>(SETTINGS_STORE, 'readonly', (store) =>
+    store.get(SETTINGS_KEY)
+  );
+  return settings?.triggers ? { ...settings, triggers: settings.triggers.map(upgradeTrigger) } : settings;
+}
+
+export async function saveOutputSettings(output: OutputSettings): Promise<void> {
+  await withStore(SETTINGS_STORE, 'readwrite', (store) => store.put(output, OUTPUT_KEY));
+}
+
+export async function loadOutputSettings(): Promise<Partial<OutputSettings> | undefined> {
+  return withStore<Partial<OutputSettings> | undefined>(SETTINGS_STORE, 'readonly', (store) =>
+    store.get(OUTPUT_KEY)
+  );
+}
@@ -0,0 +1,28 @@
+// Session settings: everything fixed for the length of a connection. Edited
+// in the settings panels, stored with each session and read by the session
+// controller. Output volume, speed and device are kept apart (OutputSettings)
+// because they apply live.
+
+import type { AudioTransportKind } from './audioTransport';
+import type { HotkeyBindings } from './hotkeys';
+import type { ResponseLanguage, TranscriptionLanguage } from './languages';
+import type { Voice } from './outputAudio';
+import type { ReferenceDocument } from './referenceIndex';
+import type { TriggerDefinition } from './triggers';
+
+export type InputMode = 'audio' | 'text';
+
+export type VoiceSettings = {
+  triggers: TriggerDefinition[];
+  interruptPhrases: string[];
+  inputMode: InputMode;
+  transport: AudioTransportKind;
+  notes: string; // Read by the lookup_notes tool
+  references: ReferenceDocument[]; // Grounding for hints; edited in ReferencePanel
+  durationMargin: number; // Overrun allowed past a trigger's duration before fading out (fraction)
+  hotkeys: HotkeyBindings;
+  holdToTalk: boolean; // Mic streams only while the hold-to-talk key is held
+  transcriptionLanguage: TranscriptionLanguage;
+  responseLanguage: ResponseLanguage;
+  voice: Voice;
+};
@@ -0,0 +1,117 @@
+// Client side of the ephemeral-token action.
+//
+// TokenProvider keeps at most one unused token warm, so connecting doesn't
+// wait on a server round-trip. A warm token that gets close to expiry is not
+// replaced, so an idle tab stops minting keys; take() then mints on demand.
+// A token is handed out once; the next take() mints anew.
+
+import type { TokenErrorCode, TokenRequest, TokenResult } from '@/app/server/tokenConfig';
+import { TranscriptionLanguage, transcriptionLanguageCode } from './languages';
+import type { Voice } from './outputAudio';
+
+export type { TokenRequest } from '@/app/server/tokenConfig';
+
+export const DEFAULT_TOKEN_REQUEST: TokenRequest = {
+  model: 'gpt-realtime',
+  voice: 'alloy',
+  transcription: { model: 'gpt-4o-mini-transcribe', language: 'en' },
+  instructionsPreset: 'trigger-assistant',
+};
+
+/** The default request with `voice`, transcribing in `language` (omitted for auto-detect). */
+export function tokenRequestFor(language: TranscriptionLanguage, voice: Voice): TokenRequest {
+  const code = transcriptionLanguageCode(language);
+  return {
+    ...DEFAULT_TOKEN_REQUEST,
+    voice,
+    transcription: {
+      model: DEFAULT_TOKEN_REQUEST.transcription.model,
+      ...(code ? { language: code } : {}),
+    },
+  };
+}
+
+export class TokenError extends Error {
+  constructor(
+    readonly code: TokenErrorCode,
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(`${message} (${code})`);
+    this.name = 'TokenError';
+  }
+}
+
+type CachedToken = { value: string; expiresAt: number }; // expiresAt: ms
+
+// Don't hand out (or keep) a token with less than this left
+const REFRESH_MARGIN_MS = 60_000;
+
+export class TokenProvider {
+  private cached: CachedToken | null = null;
+  private pending: Promise<CachedToken> | null = null;
+  private request: TokenRequest;
+
+  constructor(
+    private readonly mint: (request: TokenRequest) => Promise<TokenResult>,
+    request: TokenRequest = DEFAULT_TOKEN_REQUEST
+  ) {
+    this.request = request;
+  }
+
+  /** Change the session request; a warm token for the old request is dropped. */
+  setRequest(request: TokenRequest) {
+    if (JSON.stringify(request) === JSON.stringify(this.request)) return;
+    this.request = request;
+    this.clear();
+  }
+
+  /** Mint a token in the background so the next take() is instant. */
+  prefetch() {
+    if (this.isFresh(this.cached) || this.pending) return;
+    this.fetch().catch((error) => console.warn('⚠️ Token prefetch failed:', error));
+  }
+
+  /** A fresh token for one connection. Throws TokenError if none can be minted. */
+  async take(): Promise<string> {
+    const token = this.isFresh(this.cached) ? this.cached : await (this.pending ?? this.fetch());
+    this.clear();
+    return token.value;
+  }
+
+  dispose() {
+    this.clear();
+  }
+
+  private clear() {
+    this.cached = null;
+    this.pending = null;
+  }
+
+  private isFresh(token: CachedToken | null): token is CachedToken {
+    return token !== null && token.expiresAt - Date.now() > REFRESH_MARGIN_MS;
+  }
+
+  private fetch(): Promise<CachedToken> {
+    const request = this.request;
+    const pending = this.mint(request).then((result) => {
+      if (!result.ok) {
+        throw new TokenError(result.code, result.message, result.retryAfterMs);
+      }
+
+      const token = { value: result.value, expiresAt: result.expiresAt * 1000 };
+      // Only keep it if nothing replaced this fetch in the meantime
+      if (this.pending === pending) {
+        this.pending = null;
+        this.cached = token;
+      }
+      return token;
+    });
+
+    this.pending = pending;
+    pending.catch(() => {
+      if (this.pending === pending) this.pending = null;
+    });
+    return pending;
+  }
+}
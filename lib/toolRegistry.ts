@@ -0,0 +1,148 @@
+// Client-side tools the triggered agent can call.
+//
+// Tools are declared with the SDK's tool() helper (zod parameters, converted
+// to JSON schema and validated on invoke) but are NOT given to the
+// RealtimeAgent: the controller sends their definitions in its own
+// session.update and runs calls from the transport event loop, so it can keep
+// the trigger's response flow (modality, state machine) under its control.
+
+import { z } from 'zod';
+import { FunctionTool, tool } from '@openai/agents/realtime';
+import { evaluateExpression } from './calculator';
+import { normalizeText } from './triggerMatcher';
+import { formatPassage, ReferenceIndex } from './referenceIndex';
+
+// What executors can read; supplied by the controller at call time
+export type ToolContext = {
+  notes: string;
+  references: ReferenceIndex;
+};
+
+export type ClientTool = FunctionTool<ToolContext, any, string>;
+
+// The SDK's RunContext; executors only read .context from it
+type ToolRunContext = Parameters<ClientTool['invoke']>[0];
+
+export type ToolDefinition = {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+const MAX_PASSAGES = 3;
+
+// Note paragraphs (or lines, for list-style notes) ranked by how many distinct
+// query words they contain
+function rankPassages(text: string, query: string, limit = MAX_PASSAGES): string[] {
+  const queryWords = new Set(normalizeText(query).split(' ').filter((word) => word.length > 1));
+  if (queryWords.size === 0) return [];
+
+  const passages = text
+    .split(/\n\s*\n|\n(?=\s*[-*•]\s)/)
+    .map((passage) => passage.trim())
+    .filter(Boolean);
+
+  return passages
+    .map((passage) => {
+      const words = new Set(normalizeText(passage).split(' '));
+      let score = 0;
+      queryWords.forEach((word) => {
+        if (words.has(word)) score++;
+      });
+      return { passage, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ passage }) => passage);
+}
+
+const lookupNotes = tool({
+  name: 'lookup_notes',
+  description: "Look up the user's own notes (facts, names, numbers, prepared answers) by keywords.",
+  parameters: z.object({
+    query: z.string().describe('Keywords to look for'),
+  }),
+  execute: async ({ query }, runContext?: ToolRunContext) => {
+    const notes = runContext?.context.notes ?? '';
+    if (!notes.trim()) return 'The user has no notes.';
+    const passages = rankPassages(notes, query);
+    return passages.length > 0 ? passages.join('\n---\n') : 'No matching notes.';
+  },
+});
+
+const calculate = tool({
+  name: 'calculate',
+  description: 'Evaluate an arithmetic expression exactly (+ - * / % ^, parentheses, sqrt, abs, round, ln, log, pi, e).',
+  parameters: z.object({
+    expression: z.string().describe('For example "(1200 * 0.15) / 12"'),
+  }),
+  execute: async ({ expression }) => {
+    try {
+      return String(evaluateExpression(expression));
+    } catch (error) {
+      return `Could not evaluate: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  },
+});
+
+const searchReference = tool({
+  name: 'search_reference',
+  description: 'Search the reference documents the user provided for passages relevant to a query.',
+  parameters: z.object({
+    query: z.string().describe('What to look for in the reference documents'),
+  }),
+  execute: async ({ query }, runContext?: ToolRunContext) => {
+    const references = runContext?.context.references;
+    if (!references || references.isEmpty) return 'No reference documents have been provided.';
+    const passages = references.search(query, MAX_PASSAGES);
+    return passages.length > 0 ? passages.map(formatPassage).join('\n---\n') : 'No relevant passages found.';
+  },
+});
+
+export const DEFAULT_TOOLS: ClientTool[] = [lookupNotes, calculate, searchReference];
+
+export class ToolRegistry {
+  private tools = new Map<string, ClientTool>();
+
+  constructor(tools: ClientTool[] = DEFAULT_TOOLS) {
+    tools.forEach((t) => this.register(t));
+  }
+
+  register(clientTool: ClientTool) {
+    this.tools.set(clientTool.name, clientTool);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /** Tool definitions for session.update. */
+  get definitions(): ToolDefinition[] {
+    return [...this.tools.values()].map((t) => ({
+      type: 'function',
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+    }));
+  }
+
+  /**
+   * Run a call with its raw JSON arguments. Failures (unknown tool, invalid
+   * arguments, executor errors) come back as output text for the model.
+   */
+  async execute(name: string, args: string, context: ToolContext): Promise<{ output: string; ok: boolean }> {
+    const clientTool = this.tools.get(name);
+    if (!clientTool) {
+      return { output: `Unknown tool "${name}".`, ok: false };
+    }
+
+    try {
+      const output = await clientTool.invoke({ context } as ToolRunContext, args);
+      return { output: typeof output === 'string' ? output : JSON.stringify(output), ok: true };
+    } catch (error) {
+      return { output: `Tool failed: ${error instanceof Error ? error.message : String(error)}`, ok: false };
+    }
+  }
+}
@@ -0,0 +1,33 @@
+// Transcript item types shared by the transcript model, persistence, export
+// and the transcript view.
+
+// Which trigger produced an assistant response
+export type TranscriptTrigger = {
+  id: string;
+  label: string;
+  source: 'voice' | 'button' | 'hotkey';
+  phrase?: string; // Matched text for voice triggers, key combo for hotkeys
+  targetMs?: number; // The trigger's target duration
+  limitedAtMs?: number; // Set if playback was faded out at the duration limit
+};
+
+// A function call the agent made while answering
+export type TranscriptToolCall = {
+  name: string;
+  arguments: string; // Raw JSON
+  output?: string;
+  status: 'running' | 'done' | 'error';
+};
+
+export type TranscriptItem = {
+  id: string;
+  role: 'user' | 'assistant' | 'tool';
+  text: string;
+  timestamp: Date; // When speech started, else when the item was first seen
+  startOffsetMs?: number; // Speech start/end relative to the session's audio start
+  endOffsetMs?: number;
+  durationMs?: number; // Spoken (user) or played (assistant) length
+  isLive?: boolean;
+  trigger?: TranscriptTrigger;
+  tool?: TranscriptToolCall; // Set on 'tool' items
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { exportTranscript } from './transcriptExport';
+import type { TranscriptItem } from './transcript';
+
+const START = new Date('2026-01-01T10:00:00Z');
+const at = (ms: number) => new Date(START.getTime() + ms);
+
+const ITEMS: TranscriptItem[] = [
+  { id: 'u1', role: 'user', text: 'That is a good question', timestamp: at(0), durationMs: 1500 },
+  {
+    id: 'a1',
+    role: 'assistant',
+    text: 'Ask about the budget.',
+    timestamp: at(2000),
+    trigger: { id: 'good-question', label: 'Good Question', source: 'voice', phrase: 'good question' },
+  },
+  { id: 'u2', role: 'user', text: 'Okay', timestamp: at(3200) },
+];
+
+const options = { title: 'Standup', sessionStart: START };
+
+describe('exportTranscript', () => {
+  it('writes SRT cues relative to the session start', () => {
+    expect(exportTranscript(ITEMS, 'srt', options)).toBe(
+      [
+        '1',
+        '00:00:00,000 --> 00:00:01,500',
+        'You: That is a good question',
+        '',
+        '2',
+        // No measured duration: estimated, but cut off where the next cue starts
+        '00:00:02,000 --> 00:00:03,200',
+        'Assistant: Ask about the budget.',
+        '',
+        '3',
+        '00:00:03,200 --> 00:00:04,200',
+        'You: Okay',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('writes WebVTT with a title and voice tags', () => {
+    const vtt = exportTranscript(ITEMS, 'vtt', { ...options, title: 'A --> B' });
+    expect(vtt.startsWith('WEBVTT - A → B\n\n00:00:00.000 --> 00:00:01.500\n<v You>That is a good question\n')).toBe(true);
+  });
+
+  it('orders cues by time', () => {
+    const srt = exportTranscript([ITEMS[2], ITEMS[0]], 'srt', options);
+    expect(srt.indexOf('That is a good question')).toBeLessThan(srt.indexOf('Okay'));
+  });
+
+  it('writes JSON with offsets and the triggers', () => {
+    const json = JSON.parse(exportTranscript(ITEMS, 'json', options));
+    expect(json.title).toBe('Standup');
+    expect(json.sessionStart).toBe(START.toISOString());
+    expect(json.items.map((item: { offsetMs: number }) => item.offsetMs)).toEqual([0, 2000, 3200]);
+    expect(json.triggers).toEqual([
+      {
+        itemId: 'a1',
+        at: at(2000).toISOString(),
+        id: 'good-question',
+        label: 'Good Question',
+        source: 'voice',
+        phrase: 'good question',
+      },
+    ]);
+  });
+
+  it('groups Markdown by speaker and labels triggered responses', () => {
+    const markdown = exportTranscript(ITEMS, 'markdown', options);
+    expect(markdown.startsWith('# Standup\n')).toBe(true);
+    expect(markdown).toContain('### Assistant — Good Question (voice: "good question")');
+    expect(markdown.match(/^### You/gm)).toHaveLength(2);
+  });
+
+  it('writes one line per item as plain text', () => {
+    const lines = exportTranscript(ITEMS, 'text', options).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toMatch(/^\[.+\] Assistant: Ask about the budget\.$/);
+  });
+
+  it('starts the session at the first item by default', () => {
+    const srt = exportTranscript(ITEMS.slice(1), 'srt', { title: 'Later' });
+    expect(srt.split('\n')[1]).toBe('00:00:00,000 --> 00:00:01,200');
+  });
+});
@@ -0,0 +1,189 @@
+// Transcript export in the formats people paste into notes, docs and video
+// tools. Formatting is pure (string in, string out); downloadTranscript()
+// is the only part that touches the DOM.
+
+import type { TranscriptItem } from './transcript';
+
+export type ExportFormat = 'markdown' | 'json' | 'srt' | 'vtt' | 'text';
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  srt: { label: 'SubRip (SRT)', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+};
+
+export type ExportOptions = {
+  title: string;
+  sessionStart?: Date; // Defaults to the first item's timestamp
+};
+
+type Cue = { item: TranscriptItem; startMs: number; endMs: number };
+
+// Average speaking rate used when an item has no measured duration
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1000;
+
+function speakerName(item: TranscriptItem): string {
+  if (item.role === 'tool') return 'Tool';
+  return item.role === 'user' ? 'You' : 'Assistant';
+}
+
+function estimateSpeechMs(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.max(MIN_CUE_MS, words * MS_PER_WORD);
+}
+
+// Cue timings relative to session start. Items with a measured duration use
+// it as-is; the rest end at their estimated speech length or when the next
+// cue starts, whichever comes first
+function buildCues(items: TranscriptItem[], sessionStart: Date): Cue[] {
+  const origin = sessionStart.getTime();
+  const sorted = [...items].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return sorted.map((item, i) => {
+    const startMs = Math.max(0, item.timestamp.getTime() - origin);
+    if (item.durationMs !== undefined) {
+      return { item, startMs, endMs: startMs + Math.max(1, item.durationMs) };
+    }
+
+    const next = sorted[i + 1];
+    const nextStartMs = next ? next.timestamp.getTime() - origin : Infinity;
+    const endMs = Math.max(
+      startMs + 1,
+      Math.min(startMs + estimateSpeechMs(item.text), nextStartMs)
+    );
+    return { item, startMs, endMs };
+  });
+}
+
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.round(ms);
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function toMarkdown(items: TranscriptItem[], { title }: ExportOptions): string {
+  const lines = [`# ${title}`, '', `_Exported ${new Date().toLocaleString()}_`, ''];
+
+  // Group consecutive items from the same speaker under one heading
+  let previousRole: TranscriptItem['role'] | null = null;
+  items.forEach((item) => {
+    if (item.role !== previousRole || item.trigger) {
+      const trigger = item.trigger
+        ? ` — ${item.trigger.label} (${item.trigger.source}${item.trigger.phrase ? `: "${item.trigger.phrase}"` : ''})`
+        : '';
+      lines.push(`### ${speakerName(item)}${trigger} · ${item.timestamp.toLocaleTimeString()}`, '');
+      previousRole = item.role;
+    }
+    lines.push(item.text, '');
+  });
+
+  return lines.join('\n');
+}
+
+function toJson(items: TranscriptItem[], { title }: ExportOptions, sessionStart: Date): string {
+  const origin = sessionStart.getTime();
+  return JSON.stringify(
+    {
+      title,
+      sessionStart: sessionStart.toISOString(),
+      exportedAt: new Date().toISOString(),
+      items: items.map((item) => ({
+        ...item,
+        timestamp: item.timestamp.toISOString(),
+        offsetMs: item.timestamp.getTime() - origin,
+      })),
+      triggers: items
+        .filter((item) => item.trigger)
+        .map((item) => ({
+          itemId: item.id,
+          at: item.timestamp.toISOString(),
+          ...item.trigger,
+        })),
+    },
+    null,
+    2
+  );
+}
+
+function toSrt(cues: Cue[]): string {
+  return cues
+    .map(({ item, startMs, endMs }, i) =>
+      [
+        String(i + 1),
+        `${formatCueTime(startMs, ',')} --> ${formatCueTime(endMs, ',')}`,
+        `${speakerName(item)}: ${item.text}`,
+        '',
+      ].join('\n')
+    )
+    .join('\n');
+}
+
+function toVtt(cues: Cue[], { title }: ExportOptions): string {
+  const body = cues
+    .map(({ item, startMs, endMs }) =>
+      [
+        `${formatCueTime(startMs, '.')} --> ${formatCueTime(endMs, '.')}`,
+        `<v ${speakerName(item)}>${item.text}`,
+        '',
+      ].join('\n')
+    )
+    .join('\n');
+  return `WEBVTT - ${title.replace(/-->/g, '→')}\n\n${body}`;
+}
+
+function toText(items: TranscriptItem[]): string {
+  return items
+    .map((item) => `[${item.timestamp.toLocaleTimeString()}] ${speakerName(item)}: ${item.text}`)
+    .join('\n');
+}
+
+export function exportTranscript(
+  items: TranscriptItem[],
+  format: ExportFormat,
+  options: ExportOptions
+): string {
+  const sessionStart = options.sessionStart ?? items[0]?.timestamp ?? new Date();
+
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(items, options);
+    case 'json':
+      return toJson(items, options, sessionStart);
+    case 'srt':
+      return toSrt(buildCues(items, sessionStart));
+    case 'vtt':
+      return toVtt(buildCues(items, sessionStart), options);
+    case 'text':
+      return toText(items);
+  }
+}
+
+export function downloadTranscript(
+  items: TranscriptItem[],
+  format: ExportFormat,
+  options: ExportOptions
+) {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const content = exportTranscript(items, format, options);
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const stamp = (options.sessionStart ?? new Date()).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `transcript-${stamp}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,484 @@
+// Transcript model with stable identities and real timings.
+//
+// history_updated hands us the whole conversation every time; rebuilding
+// TranscriptItems from it naively re-stamps every message. The model keeps
+// per-item state between updates (first-seen time, speech offsets, playback
+// times), reuses unchanged item objects and reports whether anything changed.
+// Deltas and timing updates re-derive only the item they touch; the full
+// rebuild runs when the shape of the list changes (a new history snapshot, an
+// item appearing).
+//
+// Transcription deltas arrive well before the completed transcript (and
+// sometimes before the item is in history). They accumulate as partials under
+// the same id the final item will use, so a bubble streams in as live and is
+// finalized in place rather than replaced.
+//
+// A new connection starts with an empty server conversation. Items from
+// earlier connections (or a resumed session) are retained as a fixed prefix,
+// and the context replayed into the new conversation is hidden so it doesn't
+// show up twice. Items deleted server-side to save context stay where they
+// were.
+//
+// Server speech events carry audio_start_ms / audio_end_ms on the timeline of
+// audio *received by the server*, which pauses while the mic is muted. We
+// record anchors (audio ms ↔ wall clock) as audio is sent so those offsets can
+// be mapped back to wall-clock time across mute gaps.
+
+import type { RealtimeItem } from '@openai/agents/realtime';
+import type {
+  TranscriptItem,
+  TranscriptToolCall,
+  TranscriptTrigger,
+} from './transcript';
+
+export type TranscriptModelOptions = {
+  // Text for an output_audio part; the controller owns the transcript cache
+  resolveOutputAudioText: (itemId: string, transcript: string | null | undefined) => string;
+  resolveTrigger: (itemId: string) => TranscriptTrigger | undefined;
+};
+
+type ItemTiming = {
+  speechStartAudioMs?: number; // User speech, server audio timeline
+  speechEndAudioMs?: number;
+  heldFrom?: number; // User speech, hold-to-talk key press and release (wall clock)
+  heldUntil?: number;
+  playbackStartedAt?: number; // Assistant audio, wall clock
+  playbackEndedAt?: number;
+};
+
+type AudioAnchor = { audioMs: number; wallMs: number };
+
+type MessageContent = Extract<RealtimeItem, { type: 'message' }>['content'][number];
+
+// Where a shown item sits and what it is derived from
+type Slot = {
+  index: number; // In `current`
+  itemId: string;
+  content?: MessageContent; // Unset for tool calls and parts streamed ahead of history
+  retained?: boolean; // From an earlier connection; never re-derived
+};
+
+type StreamedPart = {
+  itemId: string;
+  role: TranscriptItem['role'];
+  text: string;
+  final: boolean;
+};
+
+// A send this much later than expected means recording was paused
+const ANCHOR_GAP_MS = 250;
+
+export class TranscriptModel {
+  private current: TranscriptItem[] = [];
+  private retained: TranscriptItem[] = []; // From earlier connections
+  private hidden = new Set<string>(); // Replayed context items
+  private deleted = new Set<string>(); // Conversation items kept after server-side deletion
+  private history: RealtimeItem[] = [];
+  private firstSeen = new Map<string, Date>(); // By transcript item id
+  private timings = new Map<string, ItemTiming>(); // By conversation item id
+  private partials = new Map<string, StreamedPart>(); // By transcript item id
+  private toolCalls = new Map<string, TranscriptToolCall>(); // By function_call item id
+  private slots = new Map<string, Slot>(); // By transcript item id, for shown items
+  private partsOf = new Map<string, string[]>(); // Conversation item id → shown transcript item ids
+  private anchors: AudioAnchor[] = [];
+  private sentAudioMs = 0;
+  private origin: number | null = null; // Survives reconnects, unlike anchors
+
+  constructor(private readonly options: TranscriptModelOptions) {}
+
+  get items(): TranscriptItem[] {
+    return this.current;
+  }
+
+  /** Wall-clock time the session's input audio started, if any was sent. */
+  get audioOrigin(): number | null {
+    return this.origin;
+  }
+
+  reset() {
+    this.current = [];
+    this.slots.clear();
+    this.partsOf.clear();
+    this.retained = [];
+    this.hidden.clear();
+    this.deleted.clear();
+    this.history = [];
+    this.origin = null;
+    this.firstSeen.clear();
+    this.timings.clear();
+    this.partials.clear();
+    this.toolCalls.clear();
+    this.anchors = [];
+    this.sentAudioMs = 0;
+  }
+
+  /**
+   * Keep items as a fixed prefix ahead of the (new, empty) conversation.
+   * Anything still streaming is frozen as it stands.
+   */
+  retain(items: TranscriptItem[]) {
+    this.retained = items.map((item) => (item.isLive ? { ...item, isLive: undefined } : item));
+    this.history = [];
+    this.deleted.clear();
+    this.partials.clear();
+    this.toolCalls.clear();
+    this.current = [];
+    this.rebuild();
+  }
+
+  /** Never show these conversation items (context replayed into a new connection). */
+  hideItems(itemIds: string[]) {
+    itemIds.forEach((id) => this.hidden.add(id));
+  }
+
+  /** Keep showing these items after they are deleted from the server conversation. */
+  keepDeleted(itemIds: string[]) {
+    itemIds.forEach((id) => this.deleted.add(id));
+  }
+
+  /** A new connection restarts the server's audio timeline at zero. */
+  resetAudioClock() {
+    this.anchors = [];
+    this.sentAudioMs = 0;
+  }
+
+  /** Record a chunk of input audio that was just sent to the server. */
+  recordAudioSent(durationMs: number, at = Date.now()) {
+    const chunkStart = at - durationMs;
+    const last = this.anchors[this.anchors.length - 1];
+    const expectedStart = last ? last.wallMs + (this.sentAudioMs - last.audioMs) : null;
+
+    if (expectedStart === null || chunkStart - expectedStart > ANCHOR_GAP_MS) {
+      this.anchors.push({ audioMs: this.sentAudioMs, wallMs: chunkStart });
+      this.origin ??= chunkStart;
+    }
+    this.sentAudioMs += durationMs;
+  }
+
+  markSpeechStarted(itemId: string, audioStartMs: number): boolean {
+    this.timing(itemId).speechStartAudioMs = audioStartMs;
+    return this.refreshItem(itemId);
+  }
+
+  markSpeechStopped(itemId: string, audioEndMs: number): boolean {
+    this.timing(itemId).speechEndAudioMs = audioEndMs;
+    return this.refreshItem(itemId);
+  }
+
+  /** Hold-to-talk speech: no VAD events, so the key press and release bound it. */
+  markHeld(itemId: string, from: number, until: number): boolean {
+    const timing = this.timing(itemId);
+    timing.heldFrom = from;
+    timing.heldUntil = until;
+    return this.refreshItem(itemId);
+  }
+
+  markPlaybackStarted(itemId: string, at = Date.now()): boolean {
+    const timing = this.timing(itemId);
+    if (timing.playbackStartedAt === undefined) {
+      timing.playbackStartedAt = at;
+    }
+    return this.refreshItem(itemId);
+  }
+
+  markPlaybackFinished(itemId: string, at = Date.now()): boolean {
+    this.timing(itemId).playbackEndedAt = at;
+    return this.refreshItem(itemId);
+  }
+
+  /** Append a transcription delta for a user (input) or assistant (output) audio part. */
+  appendPartial(itemId: string, role: TranscriptItem['role'], contentIndex: number, delta: string): boolean {
+    const id = transcriptItemId(itemId, role, contentIndex);
+    const partial = this.partials.get(id);
+    if (partial?.final) return false;
+
+    if (partial) {
+      partial.text += delta;
+    } else {
+      this.partials.set(id, { itemId, role, text: delta, final: false });
+    }
+    return this.refresh(id);
+  }
+
+  /** Mark a streamed part complete, optionally replacing its text with the final transcript. */
+  finalizePartial(itemId: string, role: TranscriptItem['role'], contentIndex: number, text?: string): boolean {
+    const id = transcriptItemId(itemId, role, contentIndex);
+    const partial = this.partials.get(id) ?? { itemId, role, text: '', final: true };
+    partial.final = true;
+    if (text !== undefined) {
+      partial.text = text;
+    }
+    this.partials.set(id, partial);
+    return this.refresh(id);
+  }
+
+  /** Stop showing every streamed part of an item as live (e.g. response ended or was cut off). */
+  finalizeItem(itemId: string): boolean {
+    const finalized: string[] = [];
+    this.partials.forEach((partial, id) => {
+      if (partial.itemId === itemId && !partial.final) {
+        partial.final = true;
+        finalized.push(id);
+      }
+    });
+    return finalized.reduce((changed, id) => this.refresh(id) || changed, false);
+  }
+
+  /** Wall-clock time a conversation item started (speech, playback or first seen). */
+  timeOf(itemId: string): number | undefined {
+    const first = this.partsOf.get(itemId)?.[0];
+    const slot = first !== undefined ? this.slots.get(first) : undefined;
+    return slot && this.current[slot.index].timestamp.getTime();
+  }
+
+  partialText(itemId: string, role: TranscriptItem['role'], contentIndex = 0): string | undefined {
+    return this.partials.get(transcriptItemId(itemId, role, contentIndex))?.text;
+  }
+
+  /** Add or update a function call shown inline in the transcript. */
+  recordToolCall(itemId: string, call: TranscriptToolCall): boolean {
+    this.toolCalls.set(itemId, call);
+    return this.refresh(`${itemId}-function_call`);
+  }
+
+  /** Apply a full history snapshot. Returns true if the visible items changed. */
+  applyHistory(history: RealtimeItem[]): boolean {
+    this.history = this.withDeletedItems(history);
+    return this.rebuild();
+  }
+
+  // Put kept items that the new history no longer has back after the item
+  // that preceded them
+  private withDeletedItems(history: RealtimeItem[]): RealtimeItem[] {
+    if (this.deleted.size === 0) return history;
+
+    const merged = [...history];
+    let insertAt = 0;
+    this.history.forEach((item) => {
+      const index = merged.findIndex((m) => m.itemId === item.itemId);
+      if (index >= 0) {
+        insertAt = index + 1;
+      } else if (this.deleted.has(item.itemId)) {
+        merged.splice(insertAt++, 0, item);
+      }
+    });
+    return merged;
+  }
+
+  /** Re-derive items (e.g. after a cached transcript or trigger changed). */
+  rebuild(): boolean {
+    const previous = new Map(this.current.map((item) => [item.id, item]));
+    const next: TranscriptItem[] = [];
+    const slots = new Map<string, Slot>();
+    const partsOf = new Map<string, string[]>();
+    const seen = new Set<string>();
+    let changed = false;
+
+    const place = (item: TranscriptItem, slot: Slot) => {
+      slots.set(item.id, slot);
+      const parts = partsOf.get(slot.itemId);
+      if (parts) {
+        parts.push(item.id);
+      } else {
+        partsOf.set(slot.itemId, [item.id]);
+      }
+      next.push(item);
+    };
+
+    const add = (id: string, itemId: string, role: TranscriptItem['role'], content?: MessageContent) => {
+      seen.add(id);
+      const { text, isLive, tool } = this.derive(id, itemId, role, content);
+      if (!text) return;
+
+      const built = this.buildItem(id, itemId, role, text, isLive, tool);
+      const existing = previous.get(id);
+      if (existing && sameItem(existing, built)) {
+        place(existing, { index: next.length, itemId, content });
+      } else {
+        if (!existing) {
+          console.log(`  Adding to transcript: [${role}] ${text.substring(0, 50)}...`);
+        }
+        place(built, { index: next.length, itemId, content });
+        changed = true;
+      }
+    };
+
+    this.retained.forEach((item) => {
+      place(item, { index: next.length, itemId: conversationItemId(item.id), retained: true });
+    });
+
+    this.history.forEach((item) => {
+      if (this.hidden.has(item.itemId)) return;
+
+      if (item.type === 'function_call') {
+        add(`${item.itemId}-function_call`, item.itemId, 'tool');
+        return;
+      }
+      if (item.type !== 'message') return;
+      const role = item.role === 'user' ? 'user' : 'assistant';
+
+      item.content.forEach((content, contentIndex) => {
+        add(`${item.itemId}-${content.type}-${contentIndex}`, item.itemId, role, content);
+      });
+    });
+
+    // Calls and parts still streaming for items history doesn't have yet go last
+    this.toolCalls.forEach((_call, itemId) => {
+      if (!seen.has(`${itemId}-function_call`)) add(`${itemId}-function_call`, itemId, 'tool');
+    });
+    this.partials.forEach((partial, id) => {
+      if (!seen.has(id)) add(id, partial.itemId, partial.role);
+    });
+
+    this.slots = slots;
+    this.partsOf = partsOf;
+    if (!changed && next.length === this.current.length) {
+      return false;
+    }
+    this.current = next;
+    return true;
+  }
+
+  // Re-derive one shown item in place. An item that isn't shown yet (or would
+  // disappear) changes the list's shape, so that falls back to a rebuild.
+  private refresh(id: string): boolean {
+    const slot = this.slots.get(id);
+    if (!slot) return this.rebuild();
+    if (slot.retained) return false;
+
+    const existing = this.current[slot.index];
+    const { text, isLive, tool } = this.derive(id, slot.itemId, existing.role, slot.content);
+    if (!text) return this.rebuild();
+
+    const built = this.buildItem(id, slot.itemId, existing.role, text, isLive, tool);
+    if (sameItem(existing, built)) return false;
+
+    // A new array, so consumers comparing by reference see the change
+    this.current = this.current.slice();
+    this.current[slot.index] = built;
+    return true;
+  }
+
+  // Timing changes touch every shown part of a conversation item; nothing
+  // shown yet means nothing to update (the timing applies once it appears)
+  private refreshItem(itemId: string): boolean {
+    const parts = [...(this.partsOf.get(itemId) ?? [])];
+    return parts.reduce((changed, id) => this.refresh(id) || changed, false);
+  }
+
+  // Text and live state of one item, from its history part and any streamed partial
+  private derive(
+    id: string,
+    itemId: string,
+    role: TranscriptItem['role'],
+    content?: MessageContent
+  ): { text: string; isLive: boolean; tool?: TranscriptToolCall } {
+    if (role === 'tool') {
+      const call = this.toolCalls.get(itemId);
+      if (!call) return { text: '', isLive: false };
+      return { text: `${call.name}(${call.arguments})`, isLive: call.status === 'running', tool: call };
+    }
+
+    const partial = this.partials.get(id);
+    const isLive = partial !== undefined && !partial.final;
+    if (!content) return { text: partial?.text ?? '', isLive };
+
+    switch (content.type) {
+      case 'input_text':
+      case 'output_text':
+        return { text: content.text, isLive: false };
+      case 'input_audio':
+        return { text: content.transcript || partial?.text || '', isLive };
+      case 'output_audio': {
+        // The content doesn't have a stable ID, so we use the parent item's itemId
+        const text = this.options.resolveOutputAudioText(itemId, content.transcript);
+        return { text: text || partial?.text || '', isLive };
+      }
+      default:
+        return { text: '', isLive: false };
+    }
+  }
+
+  private timing(itemId: string): ItemTiming {
+    let timing = this.timings.get(itemId);
+    if (!timing) {
+      timing = {};
+      this.timings.set(itemId, timing);
+    }
+    return timing;
+  }
+
+  // Map a server audio offset to wall-clock ms using the latest anchor before it
+  private audioMsToWall(audioMs: number): number | undefined {
+    let anchor: AudioAnchor | undefined;
+    for (const candidate of this.anchors) {
+      if (candidate.audioMs > audioMs) break;
+      anchor = candidate;
+    }
+    return anchor ? anchor.wallMs + (audioMs - anchor.audioMs) : undefined;
+  }
+
+  private buildItem(
+    id: string,
+    itemId: string,
+    role: TranscriptItem['role'],
+    text: string,
+    isLive: boolean,
+    tool?: TranscriptToolCall
+  ): TranscriptItem {
+    if (!this.firstSeen.has(id)) {
+      this.firstSeen.set(id, new Date());
+    }
+
+    const timing = this.timings.get(itemId) ?? {};
+    let startWall: number | undefined;
+    let endWall: number | undefined;
+    if (role === 'tool') {
+      // Calls have no audio of their own
+    } else if (role === 'user') {
+      startWall = timing.speechStartAudioMs !== undefined ? this.audioMsToWall(timing.speechStartAudioMs) : timing.heldFrom;
+      endWall = timing.speechEndAudioMs !== undefined ? this.audioMsToWall(timing.speechEndAudioMs) : timing.heldUntil;
+    } else {
+      startWall = timing.playbackStartedAt;
+      endWall = timing.playbackEndedAt;
+    }
+
+    const origin = this.audioOrigin;
+    return {
+      id,
+      role,
+      text,
+      timestamp: startWall !== undefined ? new Date(startWall) : this.firstSeen.get(id)!,
+      startOffsetMs: startWall !== undefined && origin !== null ? startWall - origin : undefined,
+      endOffsetMs: endWall !== undefined && origin !== null ? endWall - origin : undefined,
+      durationMs: startWall !== undefined && endWall !== undefined ? Math.max(0, endWall - startWall) : undefined,
+      isLive: isLive || undefined,
+      trigger: this.options.resolveTrigger(itemId),
+      tool,
+    };
+  }
+}
+
+// Audio parts: user speech is input_audio, assistant speech is output_audio
+function transcriptItemId(itemId: string, role: TranscriptItem['role'], contentIndex: number): string {
+  return `${itemId}-${role === 'user' ? 'input_audio' : 'output_audio'}-${contentIndex}`;
+}
+
+// Transcript item ids are the conversation item id plus a part suffix
+function conversationItemId(id: string): string {
+  return id.replace(/-(?:function_call|[a-z_]+-\d+)$/, '');
+}
+
+function sameItem(a: TranscriptItem, b: TranscriptItem): boolean {
+  return (
+    a.text === b.text &&
+    a.role === b.role &&
+    a.timestamp.getTime() === b.timestamp.getTime() &&
+    a.startOffsetMs === b.startOffsetMs &&
+    a.endOffsetMs === b.endOffsetMs &&
+    a.durationMs === b.durationMs &&
+    a.isLive === b.isLive &&
+    a.trigger === b.trigger &&
+    a.tool === b.tool
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { findBestTriggerMatch, matchTriggers, normalizeText, TriggerSpec } from './triggerMatcher';
+
+const GOOD_QUESTION: TriggerSpec = { id: 'good-question', phrases: ['good question'] };
+const THINK: TriggerSpec = { id: 'think', phrases: ['let me think'] };
+
+describe('normalizeText', () => {
+  it('lowercases, strips punctuation and diacritics', () => {
+    expect(normalizeText("Good-Question! ¿Qué tal?")).toBe('good question que tal');
+  });
+
+  it('splits unspaced scripts into characters', () => {
+    expect(normalizeText('让我想想')).toBe('让 我 想 想');
+  });
+});
+
+describe('matchTriggers', () => {
+  it('matches a phrase exactly after normalization', () => {
+    const match = findBestTriggerMatch("That's a GOOD question.", [GOOD_QUESTION]);
+    expect(match).toMatchObject({ triggerId: 'good-question', matchedText: 'GOOD question', score: 1 });
+  });
+
+  it('tolerates plurals, hyphens and trailing punctuation', () => {
+    expect(findBestTriggerMatch('good questions', [GOOD_QUESTION])?.triggerId).toBe('good-question');
+    expect(findBestTriggerMatch('good-question', [GOOD_QUESTION])?.triggerId).toBe('good-question');
+    expect(findBestTriggerMatch('ok, let me think...', [THINK])?.triggerId).toBe('think');
+  });
+
+  it('does not fire inside other words', () => {
+    expect(findBestTriggerMatch('check the stopwatch', [{ id: 'stop', phrases: ['stop'] }])).toBeNull();
+  });
+
+  it('rejects a swapped word that scores 0.8 at the default threshold', () => {
+    expect(findBestTriggerMatch("that's a good suggestion", [GOOD_QUESTION])).toBeNull();
+  });
+
+  it('uses the trigger threshold', () => {
+    const lenient = { ...GOOD_QUESTION, threshold: 0.75 };
+    expect(findBestTriggerMatch("that's a good suggestion", [lenient])?.score).toBeCloseTo(0.8);
+  });
+
+  it('lets a phrase threshold override the trigger threshold', () => {
+    const trigger: TriggerSpec = {
+      id: 'good-question',
+      phrases: ['good question', 'nice one'],
+      threshold: 0.75,
+      phraseThresholds: { 'good question': 0.9 },
+    };
+    expect(findBestTriggerMatch('good suggestion', [trigger])).toBeNull();
+    expect(findBestTriggerMatch('nice ones', [trigger])?.phrase).toBe('nice one');
+  });
+
+  it('reports matches through synonyms', () => {
+    const trigger = { ...GOOD_QUESTION, synonyms: ['great point'] };
+    expect(findBestTriggerMatch('a great point', [trigger])).toMatchObject({ phrase: 'great point', viaSynonym: true });
+  });
+
+  it('matches unspaced scripts', () => {
+    const trigger = { id: 'think', phrases: ['让我想想'] };
+    expect(findBestTriggerMatch('嗯，让我想想。', [trigger])?.matchedText).toBe('让我想想');
+  });
+
+  it('orders matches best first', () => {
+    const matches = matchTriggers('good questin, let me think', [GOOD_QUESTION, THINK]);
+    expect(matches.map((match) => match.triggerId)).toEqual(['think', 'good-question']);
+  });
+});
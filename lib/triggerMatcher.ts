@@ -0,0 +1,176 @@
+// Fuzzy trigger-phrase matching for live transcripts.
+//
+// Transcripts come back from the transcriber with inconsistent casing,
+// punctuation, plurals and the occasional misspelling, so a raw substring
+// check both misses real triggers ("good questions", "let me think...") and
+// fires on partial words ("stop" inside "stopwatch"). This module normalizes
+// both sides, matches on whole-word windows and scores candidates by edit
+// distance so each trigger can pick its own confidence threshold.
+
+export type TriggerSpec = {
+  id: string;
+  phrases: string[];
+  synonyms?: string[];
+  threshold?: number; // Minimum similarity (0-1) required to count as a match
+  phraseThresholds?: Record<string, number>; // Per phrase or synonym, overriding `threshold`
+};
+
+export type TriggerMatch = {
+  triggerId: string;
+  phrase: string; // The configured phrase or synonym that matched
+  viaSynonym: boolean;
+  matchedText: string; // Span of the original transcript that matched
+  start: number;
+  end: number;
+  score: number; // 1 = exact match after normalization
+};
+
+// High enough that one changed word of similar length ("good suggestion" for
+// "good question" scores 0.8) doesn't fire the trigger
+export const DEFAULT_MATCH_THRESHOLD = 0.85;
+
+type Token = {
+  text: string; // Normalized form used for comparison
+  start: number; // Character offsets into the original transcript
+  end: number;
+};
+
+// Scripts written without spaces between words: every character is a token
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+export function normalizeText(text: string): string {
+  return tokenize(text)
+    .map((token) => token.text)
+    .join(' ');
+}
+
+function normalizeWord(word: string): string {
+  return word
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '') // Strip diacritics so "qué" matches "que"
+    .replace(/['’]/g, '')
+    .toLowerCase();
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD)) {
+    const word = match[0];
+    const offset = match.index ?? 0;
+
+    if (UNSPACED_SCRIPT.test(word)) {
+      // Split runs like "让我想想" into single characters, keeping any
+      // embedded Latin/number runs together
+      const parts = word.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]+/gu) ?? [];
+      let cursor = offset;
+      for (const part of parts) {
+        tokens.push({ text: normalizeWord(part), start: cursor, end: cursor + part.length });
+        cursor += part.length;
+      }
+      continue;
+    }
+
+    tokens.push({ text: normalizeWord(word), start: offset, end: offset + word.length });
+  }
+  return tokens;
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 0;
+  return 1 - levenshtein(a, b) / longest;
+}
+
+// Score a phrase against every word-aligned window of the transcript. Windows
+// one word shorter/longer than the phrase absorb split or merged words
+// ("good-question" vs "goodquestion").
+function bestWindow(tokens: Token[], phraseTokens: Token[]) {
+  const phraseText = phraseTokens.map((t) => t.text).join(' ');
+  const phraseCompact = phraseText.replace(/ /g, '');
+  const size = phraseTokens.length;
+  let best: { score: number; start: number; end: number } | null = null;
+
+  for (let width = Math.max(1, size - 1); width <= size + 1; width++) {
+    for (let i = 0; i + width <= tokens.length; i++) {
+      const window = tokens.slice(i, i + width);
+      const windowText = window.map((t) => t.text).join(' ');
+      const score =
+        width === size
+          ? similarity(windowText, phraseText)
+          : similarity(windowText.replace(/ /g, ''), phraseCompact);
+
+      if (!best || score > best.score) {
+        best = { score, start: window[0].start, end: window[window.length - 1].end };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Return every trigger that matches the transcript above its threshold,
+ * best score first. Ties keep the order the triggers were given in.
+ */
+export function matchTriggers(transcript: string, triggers: TriggerSpec[]): TriggerMatch[] {
+  const tokens = tokenize(transcript);
+  if (tokens.length === 0) return [];
+
+  const matches: TriggerMatch[] = [];
+  for (const trigger of triggers) {
+    const triggerThreshold = trigger.threshold ?? DEFAULT_MATCH_THRESHOLD;
+    const candidates = [
+      ...trigger.phrases.map((phrase) => ({ phrase, viaSynonym: false })),
+      ...(trigger.synonyms ?? []).map((phrase) => ({ phrase, viaSynonym: true })),
+    ];
+
+    let best: TriggerMatch | null = null;
+    for (const { phrase, viaSynonym } of candidates) {
+      const phraseTokens = tokenize(phrase);
+      if (phraseTokens.length === 0) continue;
+
+      const threshold = trigger.phraseThresholds?.[phrase] ?? triggerThreshold;
+      const window = bestWindow(tokens, phraseTokens);
+      if (!window || window.score < threshold) continue;
+      if (best && best.score >= window.score) continue;
+
+      best = {
+        triggerId: trigger.id,
+        phrase,
+        viaSynonym,
+        matchedText: transcript.slice(window.start, window.end),
+        start: window.start,
+        end: window.end,
+        score: window.score,
+      };
+    }
+
+    if (best) matches.push(best);
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+export function findBestTriggerMatch(
+  transcript: string,
+  triggers: TriggerSpec[]
+): TriggerMatch | null {
+  return matchTriggers(transcript, triggers)[0] ?? null;
+}
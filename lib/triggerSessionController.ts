@@ -0,0 +1,1850 @@
+// Framework-agnostic owner of the Realtime session used by the trigger UI.
+//
+// The controller wires a RealtimeSession to an AudioTransport (WebSocket or
+// WebRTC) and implements the trigger flow: listen silently in text-only mode,
+// flip to audio for a single triggered response, then flip back. Each
+// response gets the trigger's slice of the conversation (within its token
+// budget; older turns are summarized out of band), may call client-side tools,
+// and is capped to the trigger's duration. UIs subscribe to its typed events
+// and call trigger() / interrupt(); nothing in here depends on React.
+//
+// Settings are fixed while connected: updateSettings() holds new ones until
+// the next connect, which builds a fresh RealtimeSession from them. A dropped
+// connection is retried by a ReconnectSupervisor, each attempt with a new
+// token and session and the recent context replayed into it. Input (device,
+// mute, hold-to-talk, levels) and output (volume, speed, device) controls
+// apply live.
+
+import {
+  RealtimeAgent,
+  RealtimeSession,
+  TransportEvent,
+  RealtimeItem,
+} from '@openai/agents/realtime';
+import type { WavRecorder, WavStreamPlayer } from 'wavtools';
+import type { VoiceSettings } from './settings';
+import type {
+  TranscriptItem,
+  TranscriptToolCall,
+  TranscriptTrigger,
+} from './transcript';
+import type { Hint } from './hints';
+import { TypedEventEmitter } from './typedEventEmitter';
+import { AgentState, AgentStateMachine, TransitionRecord } from './agentStateMachine';
+import { PlaybackInterruptResult, trimTranscriptToHeard } from './playbackTracker';
+import { AudioTransport, createAudioTransport } from './audioTransport';
+import { findBestTriggerMatch, TriggerMatch } from './triggerMatcher';
+import { TranscriptModel } from './transcriptModel';
+import { ReconnectPolicy, ReconnectSupervisor } from './reconnectSupervisor';
+import { ToolRegistry } from './toolRegistry';
+import { InputDevice, listInputDevices } from './inputDevices';
+import { InputLevel, NO_AUDIO_PEAK, NO_AUDIO_WARNING_SECONDS } from './inputLevel';
+import { languageInstruction, transcriptionLanguageCode } from './languages';
+import { DEFAULT_OUTPUT, OutputSettings, playPcm16 } from './outputAudio';
+import {
+  audioDeltaMs,
+  durationLimitMs,
+  FADE_OUT_MS,
+  maxOutputTokensFor,
+  OUTPUT_SAMPLE_RATE,
+} from './durationLimit';
+import { formatPassage, ReferenceIndex, ReferencePassage } from './referenceIndex';
+import {
+  ContextManager,
+  ContextTurn,
+  ScopedTurn,
+  estimateItemTokens,
+  estimateTextTokens,
+  fitToBudget,
+  planCompaction,
+  selectScope,
+} from './contextManager';
+import {
+  DEFAULT_TRIGGERS,
+  DELIVERY_LABELS,
+  TriggerDefinition,
+  contextBudgetOf,
+  deliveryOf,
+  describeContextScope,
+  outputModalitiesFor,
+  renderTriggerInstructions,
+  toTriggerSpecs,
+} from './triggers';
+
+export type { AgentState } from './agentStateMachine';
+
+export type TriggerSource =
+  | { type: 'voice'; transcript: string; match: TriggerMatch }
+  | { type: 'button' }
+  | { type: 'hotkey'; combo: string };
+
+export type TextHistoryMessage = {
+  type: 'message';
+  role: 'user' | 'assistant' | 'system'; // 'system' holds the running summary
+  content: { type: 'input_text' | 'output_text'; text: string }[];
+};
+
+// A transcribed user utterance; `at` is when the speech started
+type Utterance = { text: string; at: number };
+
+// When a text history message was said, for scope selection. User messages
+// combine several utterances, each with its own time.
+type TextTurnInfo = { at: number; utterances?: Utterance[] };
+
+// What a trigger's responses get as input, chosen once per trigger
+type TriggerContext = {
+  input: unknown[];
+  turns: { role: ContextTurn['role']; text: string; audio: boolean }[]; // For logging
+  tokens: number;
+  outOfScope: number;
+  overBudget: number;
+};
+
+// Function calls and their outputs, sent as explicit input
+type ToolTurnItem =
+  | { type: 'function_call'; call_id: string; name: string; arguments: string }
+  | { type: 'function_call_output'; call_id: string; output: string };
+
+// Prior conversation used to seed a new connection (resume or reconnect)
+export type ResumeContext = {
+  transcripts: TranscriptItem[];
+  textHistory: TextHistoryMessage[];
+};
+
+export type ResponseInfo = {
+  trigger: TriggerDefinition | null; // null for responses we did not trigger
+  source: TriggerSource | null;
+};
+
+export type TriggerSessionEvents = {
+  stateChanged: [state: AgentState, previous: AgentState, record: TransitionRecord];
+  connectionChanged: [connected: boolean];
+  reconnecting: [attempt: number, delayMs: number];
+  transcript: [items: TranscriptItem[]];
+  textHistoryChanged: [history: TextHistoryMessage[]];
+  responseStarted: [info: ResponseInfo];
+  responseFinished: [info: ResponseInfo & { text: string }];
+  // A triggered response was added or updated (streamed text, timing, replay)
+  hint: [hint: Hint];
+  transportEvent: [event: TransportEvent];
+  talkingChanged: [talking: boolean];
+  inputLevel: [level: InputLevel];
+  // Seconds of capture without any signal, once past the warning threshold; 0 when audio returns
+  inputSilence: [seconds: number];
+  inputDevicesChanged: [devices: InputDevice[], selected: string | null];
+  error: [error: unknown];
+};
+
+export type ConnectOptions = {
+  resumeFrom?: ResumeContext;
+};
+
+export type TriggerSessionControllerOptions = {
+  getToken: () => Promise<string>;
+  recorder?: WavRecorder; // WebSocket transport only
+  player?: WavStreamPlayer;
+  reconnectPolicy?: ReconnectPolicy;
+};
+
+// Cap on prior messages replayed into a resumed or re-established connection
+const MAX_RESUME_ITEMS = 50;
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:\n';
+
+// Hold-to-talk: keep streaming briefly after release so the last recorder
+// chunk isn't lost, and drop holds too short to commit (the server needs 100ms)
+const HOLD_RELEASE_TAIL_MS = 150;
+const MIN_HOLD_MS = 200;
+
+function summaryMessage(summary: string): TextHistoryMessage {
+  return {
+    type: 'message',
+    role: 'system',
+    content: [{ type: 'input_text', text: SUMMARY_PREFIX + summary }],
+  };
+}
+
+function textMessageTokens(message: TextHistoryMessage): number {
+  return estimateTextTokens(message.content.map((content) => content.text).join(' '));
+}
+
+// Reference grounding: recent transcript items form the query, and this many
+// passages go into the response instructions
+const GROUNDING_QUERY_ITEMS = 8;
+const MAX_GROUNDING_PASSAGES = 3;
+
+// Errors the server sends during normal operation
+function isExpectedErrorCode(code: unknown): boolean {
+  // "empty buffer" happens when VAD fires before any audio has been sent
+  // (e.g., at session start)
+  if (code === 'input_audio_buffer_commit_empty') {
+    return true;
+  }
+
+  // "response_cancel_not_active" happens when we cancel after the response
+  // finished but audio is still playing
+  if (code === 'response_cancel_not_active') {
+    console.log('ℹ️ Response already completed (audio was still playing)');
+    return true;
+  }
+
+  return false;
+}
+
+// Transcription config for the session; no language means auto-detect
+function transcriptionConfig(settings: VoiceSettings) {
+  const language = transcriptionLanguageCode(settings.transcriptionLanguage);
+  return {
+    model: 'gpt-4o-mini-transcribe', // More accurate real-time transcription
+    ...(language ? { language } : {}),
+  };
+}
+
+function createAgent(settings: VoiceSettings) {
+  const language = languageInstruction(settings.responseLanguage);
+  // Simplified instructions for triggered responses
+  const instructions = `You are a helpful voice assistant. ${language}
+
+When asked to provide a hint or guidance, base your response on the recent conversation context.
+
+${settings.triggers.map((t) => `For ${t.label} (${t.duration} seconds): follow the instructions sent with the request.`).join('\n')}
+
+Always be concise, helpful, and base responses on what the user was discussing. Remember: ${language}`;
+
+  return new RealtimeAgent({
+    name: 'Voice Assistant',
+    instructions,
+    tools: [],
+  });
+}
+
+export class TriggerSessionController extends TypedEventEmitter<TriggerSessionEvents> {
+  readonly machine = new AgentStateMachine();
+  readonly transcript: TranscriptModel;
+  readonly supervisor: ReconnectSupervisor;
+
+  private settings: VoiceSettings;
+  private pendingSettings: VoiceSettings | null = null; // Applied on the next connect
+  private readonly options: TriggerSessionControllerOptions;
+  private readonly getToken: () => Promise<string>;
+  private readonly tools = new ToolRegistry();
+  private references: ReferenceIndex;
+  private readonly context = new ContextManager((event) => this.session.transport.sendEvent(event));
+
+  private currentAudio: AudioTransport;
+  private currentSession: RealtimeSession<any>;
+  private connected = false;
+  private muted = false;
+  private talking = false; // Hold-to-talk key is down
+  private holdStartedAt = 0;
+  private holdRelease: Promise<void> | null = null;
+  private heldSpeech: { from: number; until: number } | null = null; // Committed, awaiting its item id
+  private inputDeviceId: string | null = null; // null: system default
+  private defaultDeviceId: string | null = null; // Physical device behind the default, when known
+  private lastAudioAt = 0;
+  private silentSeconds = 0;
+  private silenceTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly onDeviceChange = () => void this.handleDeviceChange();
+  private activeResponse: ResponseInfo = { trigger: null, source: null };
+  private triggeredAt = 0;
+
+  private transcriptCache = new Map<string, string>(); // Cache transcripts by item_id
+  private heardAudio = new Map<string, PlaybackInterruptResult>(); // Interrupted items: how much was heard
+  private responseTriggers = new Map<string, TranscriptTrigger>(); // Trigger behind each response item
+  private generatedAudioMs = new Map<string, number>(); // Output audio received per item (WebSocket)
+  private hints = new Map<string, Hint>(); // By response item id
+  private output: OutputSettings = DEFAULT_OUTPUT; // For replays
+  private currentResponseId: string | null = null;
+  private pendingResponse: ReturnType<typeof setTimeout> | null = null; // response.create not sent yet
+  private awaitingCreated = false; // response.create sent, response.created not seen yet
+  private discardNextCreated = false; // Interrupted before the server created the response
+  private cancelledResponses = new Map<string, ResponseInfo>(); // Interrupted, response.done still due
+  private sessionHistory: RealtimeItem[] = []; // Full session history for LLM context logging
+
+  // For text input mode: accumulate transcripts and track audio items
+  private accumulatedTranscripts: Utterance[] = []; // Accumulate user transcripts before trigger
+  private audioItemIds: string[] = []; // Track audio item IDs to delete when creating combined message
+  private transcribedAudioItems = new Set<string>(); // Audio items whose transcript is final
+  private summaryItemId: string | null = null; // Audio mode: server-side summary item
+  private textConversationHistory: TextHistoryMessage[] = []; // Text-only conversation history for multi-turn
+  private textHistoryByItem = new Map<string, TextHistoryMessage>(); // Assistant entries by response item_id
+  private textTurnInfo = new WeakMap<TextHistoryMessage, TextTurnInfo>(); // Missing for resumed history
+  private seedTimes = new Map<string, number>(); // Replayed items: when the original was said
+
+  // Tool calls made during the current trigger
+  private pendingToolCalls: Promise<void>[] = [];
+  private toolTurn: ToolTurnItem[] = [];
+  private triggerContext: TriggerContext | null = null;
+
+  constructor(settings: VoiceSettings, options: TriggerSessionControllerOptions) {
+    super();
+    this.settings = settings;
+    this.options = options;
+    this.getToken = options.getToken;
+    this.references = new ReferenceIndex(settings.references);
+    this.currentAudio = createAudioTransport(settings.transport, options);
+    this.currentSession = this.createSession();
+    this.supervisor = new ReconnectSupervisor(options.reconnectPolicy);
+
+    this.transcript = new TranscriptModel({
+      // Interrupted items always use the cache, which holds only what was heard
+      resolveOutputAudioText: (itemId, transcript) =>
+        this.heardAudio.has(itemId)
+          ? this.transcriptCache.get(itemId) || ''
+          : transcript || this.transcriptCache.get(itemId) || '',
+      resolveTrigger: (itemId) => this.responseTriggers.get(itemId),
+    });
+
+    this.machine.on('transition', (record) => {
+      this.emit('stateChanged', record.to, record.from, record);
+    });
+
+    this.attachAudio();
+
+    this.supervisor.on('attempt', (attempt, delayMs) => {
+      console.log(`🔁 Reconnect attempt ${attempt} in ${delayMs}ms`);
+      this.emit('reconnecting', attempt, delayMs);
+    });
+    this.supervisor.on('recovered', (attempts) => {
+      console.log(`✅ Reconnected after ${attempts} attempt(s)`);
+    });
+    this.supervisor.on('gaveUp', (error) => {
+      console.error('❌ Giving up on reconnecting:', error);
+      void this.teardown();
+      this.machine.send('fail', 'reconnect failed');
+      this.emit('error', error);
+    });
+  }
+
+  private attachAudio() {
+    // Speaking/draining follow what is audible, not what the server has sent
+    this.audio.on('playbackStarted', (itemId) => {
+      console.log(`🔊 Playback started for ${itemId}`);
+      this.machine.send('audioStarted', itemId);
+      this.updateTranscript(this.transcript.markPlaybackStarted(itemId));
+      this.markFirstOutput(itemId);
+    });
+    this.audio.on('playbackFinished', (itemId, info) => {
+      console.log(`🔇 Playback finished for ${itemId}: ${info.playedMs}/${info.queuedMs}ms${info.interrupted ? ' (interrupted)' : ''}`);
+      this.logDuration(itemId, info.playedMs);
+      const hint = this.hints.get(itemId);
+      if (hint) {
+        this.updateHint({
+          ...hint,
+          durationMs: info.playedMs,
+          replayable: info.playedMs > 0 && this.audio.recordedAudio(itemId) !== null,
+        });
+      }
+      this.updateTranscript(this.transcript.markPlaybackFinished(itemId));
+      if (!this.audio.isActive) {
+        this.machine.send('playbackFinished', itemId);
+      }
+    });
+    this.audio.on('audioSent', (durationMs) => this.transcript.recordAudioSent(durationMs));
+    this.audio.on('outputLimited', (result) => this.handleOutputLimited(result));
+    this.audio.on('inputLevel', (level) => {
+      if (level.peak >= NO_AUDIO_PEAK) this.lastAudioAt = Date.now();
+      this.emit('inputLevel', level);
+    });
+  }
+
+  get session(): RealtimeSession<any> {
+    return this.currentSession;
+  }
+
+  get audio(): AudioTransport {
+    return this.currentAudio;
+  }
+
+  get agentState(): AgentState {
+    return this.machine.state;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  get isMuted(): boolean {
+    return this.muted;
+  }
+
+  get isTalking(): boolean {
+    return this.talking;
+  }
+
+  get inputDevice(): string | null {
+    return this.inputDeviceId;
+  }
+
+
+  get isBusy(): boolean {
+    return this.machine.isBusy;
+  }
+
+  get transitionLog(): readonly TransitionRecord[] {
+    return this.machine.transitionLog;
+  }
+
+  get textHistory(): readonly TextHistoryMessage[] {
+    return this.textConversationHistory;
+  }
+
+  /**
+   * Replace the settings. They are locked while connected, so they are held
+   * until the next connect() rather than applied to a live session.
+   */
+  updateSettings(settings: VoiceSettings) {
+    if (settings === (this.pendingSettings ?? this.settings)) return;
+    this.pendingSettings = settings;
+  }
+
+  async connect(options: ConnectOptions = {}): Promise<void> {
+    if (this.connected || !this.machine.send('connect')) return;
+
+    console.log('Connecting to session...');
+    try {
+      await this.applyPendingSettings();
+      await this.audio.prepare();
+
+      this.transcript.reset();
+      this.context.reset();
+      this.summaryItemId = null;
+      this.seedTimes.clear();
+      this.hints.clear();
+      if (options.resumeFrom) {
+        this.transcript.retain(options.resumeFrom.transcripts);
+      }
+
+      const token = await this.getToken();
+      console.log('Got token, connecting session...');
+
+      await this.session.connect({
+        apiKey: token,
+      });
+      console.log('Session connected');
+
+      if (options.resumeFrom) {
+        this.seedContext(options.resumeFrom);
+        // Text mode sends its own history as explicit input, so restore that too
+        if (this.settings.inputMode === 'text') {
+          this.textConversationHistory = options.resumeFrom.textHistory.map((message) => ({
+            ...message,
+            content: message.content.map((content) => ({ ...content })),
+          }));
+          const summary = this.textConversationHistory.find((message) => message.role === 'system');
+          this.context.restoreSummary(summary ? summary.content[0].text.replace(SUMMARY_PREFIX, '') : null);
+          this.notifyTextHistory();
+        }
+      }
+
+      await this.startAudio();
+
+      this.connected = true;
+      this.muted = false;
+      this.emit('connectionChanged', true);
+      this.machine.send('connected');
+      this.startInputMonitoring();
+      console.log('✅ Connection complete');
+    } catch (error) {
+      this.machine.send('fail', error instanceof Error ? error.message : String(error));
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.connected) return;
+
+    console.log('Disconnecting...');
+    await this.teardown();
+    this.machine.send('disconnect');
+  }
+
+  private async teardown() {
+    // Clear the flag first so the close isn't mistaken for a dropped connection
+    this.connected = false;
+    this.cancelPendingResponse();
+    if (this.talking) {
+      this.talking = false;
+      this.emit('talkingChanged', false);
+    }
+    this.supervisor.cancel();
+    this.stopInputMonitoring();
+    this.session.close();
+    await this.audio.stop();
+    this.emit('connectionChanged', false);
+  }
+
+  /** Microphones to choose from (asks for mic permission if needed). */
+  async listInputDevices(): Promise<InputDevice[]> {
+    return listInputDevices();
+  }
+
+  /** Capture from this device (null: system default); switches live while connected. */
+  async setInputDevice(deviceId: string | null): Promise<void> {
+    if (deviceId === this.inputDeviceId) return;
+    this.inputDeviceId = deviceId;
+    this.lastAudioAt = Date.now(); // Give the new device a full grace period
+    await this.audio.setInputDevice(deviceId);
+  }
+
+  // The session is built from the settings, as are the reference index and
+  // (for the transport kind) the audio transport
+  private async applyPendingSettings() {
+    const settings = this.pendingSettings;
+    if (!settings) return;
+    this.pendingSettings = null;
+
+    const previous = this.settings;
+    this.settings = settings;
+    if (settings.references !== previous.references) {
+      this.references = new ReferenceIndex(settings.references);
+    }
+    if (settings.transport !== previous.transport) {
+      console.log(`🔀 Switching audio transport to ${settings.transport}`);
+      this.currentAudio.dispose();
+      this.currentAudio = createAudioTransport(settings.transport, this.options);
+      this.attachAudio();
+      await this.currentAudio.setInputDevice(this.inputDeviceId);
+      await this.currentAudio.setOutput(this.output);
+    }
+    this.currentSession.close();
+    this.currentSession = this.createSession();
+  }
+
+  /** Volume, playback speed and output device; applies live. */
+  async setOutput(output: OutputSettings): Promise<void> {
+    this.output = output;
+    await this.audio.setOutput(output);
+    console.log(`🔈 Output: volume ${Math.round(output.volume * 100)}%, speed ${output.playbackRate}x`);
+  }
+
+  private startInputMonitoring() {
+    this.lastAudioAt = Date.now();
+    this.silenceTimer = setInterval(() => this.checkSilence(), 1000);
+    navigator.mediaDevices?.addEventListener('devicechange', this.onDeviceChange);
+    void this.handleDeviceChange(); // Learn the current default
+  }
+
+  private stopInputMonitoring() {
+    if (this.silenceTimer) clearInterval(this.silenceTimer);
+    this.silenceTimer = null;
+    navigator.mediaDevices?.removeEventListener('devicechange', this.onDeviceChange);
+    this.reportSilence(0);
+  }
+
+  private checkSilence() {
+    // Only while audio should be flowing
+    const capturing = !this.muted && !this.supervisor.isActive && (!this.settings.holdToTalk || this.talking);
+    if (!capturing) {
+      this.lastAudioAt = Date.now();
+      this.reportSilence(0);
+      return;
+    }
+
+    const seconds = Math.floor((Date.now() - this.lastAudioAt) / 1000);
+    this.reportSilence(seconds >= NO_AUDIO_WARNING_SECONDS ? seconds : 0);
+  }
+
+  private reportSilence(seconds: number) {
+    if (seconds === this.silentSeconds) return;
+    if (seconds === NO_AUDIO_WARNING_SECONDS) {
+      console.warn(`⚠️ No input audio for ${seconds}s - check the microphone`);
+    }
+    this.silentSeconds = seconds;
+    this.emit('inputSilence', seconds);
+  }
+
+  private async handleDeviceChange() {
+    let devices: InputDevice[];
+    try {
+      devices = await listInputDevices();
+    } catch (error) {
+      console.warn('⚠️ Could not list input devices:', error);
+      return;
+    }
+    if (!this.connected) return;
+
+    const currentDefault = devices.find((device) => device.isDefault)?.deviceId ?? null;
+    const previousDefault = this.defaultDeviceId;
+    this.defaultDeviceId = currentDefault;
+
+    try {
+      if (this.inputDeviceId && !devices.some((device) => device.deviceId === this.inputDeviceId)) {
+        console.warn('🎤 Selected microphone disconnected, falling back to the default');
+        await this.setInputDevice(null);
+      } else if (!this.inputDeviceId && previousDefault !== null && currentDefault !== previousDefault) {
+        console.log('🎤 Default microphone changed, switching to it');
+        this.lastAudioAt = Date.now();
+        await this.audio.setInputDevice(null);
+      }
+    } catch (error) {
+      console.error('❌ Could not switch input device:', error);
+      this.emit('error', error);
+    }
+    this.emit('inputDevicesChanged', devices, this.inputDeviceId);
+  }
+
+  async setMuted(muted: boolean): Promise<void> {
+    if (!this.connected || muted === this.muted) return;
+    if (this.settings.holdToTalk) {
+      console.log('ℹ️ Hold-to-talk mode: the mic follows the hold key, ignoring mute');
+      return;
+    }
+
+    await this.audio.setMuted(muted);
+    this.muted = muted;
+  }
+
+  /** Hold-to-talk key pressed: stream the mic into a fresh input buffer. */
+  async startTalking(): Promise<void> {
+    // While reconnecting there is no open transport to stream into
+    if (!this.connected || this.supervisor.isActive || !this.settings.holdToTalk || this.talking) return;
+    await this.holdRelease; // Finish committing the previous hold first
+
+    this.talking = true;
+    this.holdStartedAt = Date.now();
+    this.emit('talkingChanged', true);
+
+    // No VAD to detect barge-in, so talking over the agent interrupts it
+    if (this.machine.state === 'generating' || this.audio.isAudible) {
+      console.log(`⚡ BARGE-IN: Hold-to-talk pressed while agent ${this.machine.state} - interrupting`);
+      void this.interrupt();
+    }
+
+    this.sendInputBufferEvent('input_audio_buffer.clear');
+    await this.audio.setMuted(false);
+    console.log('🎙️ Hold-to-talk: streaming');
+  }
+
+  /** Hold-to-talk key released: stop streaming and commit what was said. */
+  async stopTalking(): Promise<void> {
+    if (!this.talking) return;
+    this.talking = false;
+    this.emit('talkingChanged', false);
+
+    this.holdRelease = (async () => {
+      await new Promise((resolve) => setTimeout(resolve, HOLD_RELEASE_TAIL_MS));
+      if (!this.connected) return;
+      await this.audio.setMuted(true);
+      // The reconnected session starts with an empty buffer anyway
+      if (this.supervisor.isActive) return;
+
+      const from = this.holdStartedAt;
+      const until = Date.now();
+      if (until - from < MIN_HOLD_MS) {
+        console.log(`🎙️ Hold-to-talk: ${until - from}ms is too short, discarding`);
+        this.sendInputBufferEvent('input_audio_buffer.clear');
+        return;
+      }
+      if (this.sendInputBufferEvent('input_audio_buffer.commit')) {
+        this.heldSpeech = { from, until };
+        console.log(`🎙️ Hold-to-talk: committed ${until - from}ms`);
+      }
+    })();
+    try {
+      await this.holdRelease;
+    } finally {
+      this.holdRelease = null;
+    }
+  }
+
+  // sendEvent throws if the transport closed under us; that must not keep
+  // the mic from being paused or resumed
+  private sendInputBufferEvent(type: 'input_audio_buffer.clear' | 'input_audio_buffer.commit'): boolean {
+    try {
+      this.session.transport.sendEvent({ type });
+      return true;
+    } catch (error) {
+      console.warn(`⚠️ Could not send ${type}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Fire a trigger by id or definition. Returns false if the trigger was
+   * ignored (not connected, unknown trigger, or agent already busy).
+   */
+  trigger(
+    kind: string | TriggerDefinition,
+    source: TriggerSource = { type: 'button' }
+  ): boolean {
+    const trigger =
+      typeof kind === 'string' ? this.settings.triggers.find((t) => t.id === kind) : kind;
+    if (!trigger || !this.connected) return false;
+
+    // The state machine rejects triggers while a response is in progress
+    if (!this.machine.send('trigger', `${trigger.label} via ${source.type}`)) {
+      console.log(`⚠️ Agent is ${this.machine.state}, ignoring ${trigger.label} ${source.type} trigger`);
+      return false;
+    }
+
+    this.activeResponse = { trigger, source };
+    this.triggeredAt = Date.now();
+    this.pendingToolCalls = [];
+    this.toolTurn = [];
+    this.triggerContext = null;
+
+    // Handle text input mode: combine accumulated transcripts into single message
+    if (this.settings.inputMode === 'text') {
+      const utterances = this.accumulatedTranscripts;
+      const textModeMessage = utterances.map((utterance) => utterance.text).join(' ');
+
+      if (textModeMessage) {
+        console.log(`🎯 [Text Mode] ${trigger.label} triggered! Combined user message: "${textModeMessage}"`);
+
+        // Add the user message to text conversation history
+        const message: TextHistoryMessage = {
+          type: 'message',
+          role: 'user',
+          content: [
+            {
+              type: 'input_text',
+              text: textModeMessage,
+            },
+          ],
+        };
+        this.textConversationHistory.push(message);
+        this.textTurnInfo.set(message, { at: utterances[0].at, utterances });
+        this.notifyTextHistory();
+      }
+
+      // The transcripts now live in the text history; the audio is dead weight
+      this.deleteTranscribedAudioItems();
+      this.accumulatedTranscripts = [];
+
+      // Clear the audio buffer (audio was only used for transcription)
+      this.session.transport.sendEvent({
+        type: 'input_audio_buffer.clear',
+      });
+    } else if (source.type === 'voice') {
+      // Audio mode: just log, conversation already has audio items
+      console.log(`🎯 [Audio Mode] ${trigger.label} detected: "${source.match.matchedText}" in "${source.transcript}" (score ${source.match.score.toFixed(2)})`);
+    } else {
+      console.log(`📤 Manual trigger: ${trigger.label} - switching to ${deliveryOf(trigger)} delivery...`);
+    }
+
+    // Switch session to the trigger's output mode; text-only stays silent
+    this.session.transport.sendEvent({
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        output_modalities: outputModalitiesFor(deliveryOf(trigger)),
+      },
+    });
+
+    // Wait a moment before creating response
+    this.pendingResponse = setTimeout(() => {
+      this.pendingResponse = null;
+      this.createResponse(trigger, source);
+    }, 100);
+    return true;
+  }
+
+  async interrupt(): Promise<void> {
+    if (!this.connected) return;
+
+    const previous = this.machine.state;
+    if (!this.machine.send('interrupt')) return;
+
+    console.log(`⛔ Interrupting agent (was ${previous})...`);
+
+    // Forget the trigger now: a new one may fire before the cancelled
+    // response's response.done arrives
+    const cancelledId = this.currentResponseId;
+    this.cancelPendingResponse();
+    if (cancelledId) {
+      this.cancelledResponses.set(cancelledId, this.activeResponse);
+    } else if (this.awaitingCreated) {
+      this.discardNextCreated = true;
+    }
+    this.currentResponseId = null;
+    this.activeResponse = { trigger: null, source: null };
+    this.pendingToolCalls = [];
+    this.toolTurn = [];
+    this.triggerContext = null;
+
+    try {
+      // Stop audio playback
+      console.log('🔇 Calling player.interrupt()...');
+      const heard = await this.audio.interrupt();
+      console.log('✅ player.interrupt() completed', heard ? `(${heard.itemId}: heard ${heard.playedMs}/${heard.queuedMs}ms)` : '(nothing playing)');
+      if (heard) {
+        this.truncateToHeard(heard);
+      }
+    } catch (error) {
+      console.error('❌ Error calling player.interrupt():', error);
+    }
+
+    // Cancel the current response
+    console.log('📤 Sending response.cancel...');
+    this.session.transport.sendEvent({
+      type: 'response.cancel',
+      ...(cancelledId ? { response_id: cancelledId } : {}),
+    });
+
+    // Switch back to text-only mode
+    console.log('📤 Switching to text-only mode...');
+    this.session.transport.sendEvent({
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        output_modalities: ['text'],
+      },
+    });
+
+    this.machine.send('interruptComplete');
+    console.log('✅ Agent interrupted - back to listening');
+  }
+
+  // In hold-to-talk mode the mic stays paused until the key is held
+  private async startAudio() {
+    await this.audio.start(this.session);
+    if (this.settings.holdToTalk && !this.talking) {
+      await this.audio.setMuted(true);
+    }
+  }
+
+  private createSession(): RealtimeSession<any> {
+    const session = new RealtimeSession(createAgent(this.settings), {
+      transport: this.audio.createTransportLayer(),
+      model: 'gpt-realtime',
+      config: {
+        modalities: ['text'], // Text-only mode - agent cannot produce audio
+        voice: this.settings.voice,
+        turn_detection: null,
+        input_audio_transcription: transcriptionConfig(this.settings),
+      },
+    });
+
+    // A replaced session (reconnect, transport switch) must not log or act twice
+    session.on('transport_event', (event) => {
+      if (session === this.currentSession) this.handleTransportEvent(event);
+    });
+    session.on('history_updated', (history) => this.handleHistoryUpdated(history));
+    session.on('error', (error) => this.handleSessionError(error));
+    session.transport.on('connection_change', (status) => {
+      if (status === 'disconnected' && session === this.currentSession) {
+        this.handleConnectionLost();
+      }
+    });
+    return session;
+  }
+
+  private handleConnectionLost() {
+    // Deliberate closes clear `connected` first; failed attempts are the supervisor's
+    if (!this.connected || this.supervisor.isActive) return;
+
+    console.warn('📴 Connection lost, reconnecting...');
+    this.machine.send('connectionLost');
+    this.cancelPendingResponse();
+    this.activeResponse = { trigger: null, source: null };
+    this.currentResponseId = null;
+    this.awaitingCreated = false;
+    this.discardNextCreated = false;
+    this.cancelledResponses.clear();
+    // Reset even if stopping playback fails, so no per-response playback
+    // state carries into the reconnected session
+    void this.audio
+      .interrupt()
+      .catch((error) => console.warn('⚠️ Could not stop playback after the connection dropped:', error))
+      .finally(() => this.audio.reset());
+    void this.audio.suspend();
+
+    // Everything shown so far stays; the new conversation starts empty
+    this.transcript.retain(this.transcript.items);
+    const replay: ResumeContext = {
+      transcripts: this.transcript.items,
+      textHistory: this.textConversationHistory,
+    };
+    this.supervisor.start(() => this.reopen(replay));
+  }
+
+  private async reopen(replay: ResumeContext) {
+    this.currentSession.close();
+    this.currentSession = this.createSession();
+    this.audioItemIds = [];
+    this.transcribedAudioItems.clear();
+    this.summaryItemId = null;
+    this.context.cancel();
+    this.transcript.resetAudioClock();
+
+    const token = await this.getToken();
+    // The new session's session.created handler sends configureSession()
+    await this.session.connect({ apiKey: token });
+    if (!this.connected) return; // Disconnected while the attempt was in flight
+
+    this.seedContext(replay);
+    await this.startAudio();
+    this.machine.send('connected', 'reconnected');
+  }
+
+  // Replay earlier conversation into a new connection so triggers can reason
+  // over it. The replayed items are hidden from the transcript, which already
+  // shows them.
+  private seedContext(context: ResumeContext) {
+    const items = context.transcripts
+      .filter((item) => item.role !== 'tool' && item.text.trim())
+      .slice(-MAX_RESUME_ITEMS);
+
+    if (this.context.summary && this.settings.inputMode === 'audio') {
+      this.insertSummaryItem(this.context.summary);
+    }
+
+    console.log(`♻️ Seeding ${items.length} prior messages into the new session...`);
+    const prefix = `seed_${Date.now().toString(36)}`;
+    const ids = items.map((_, i) => `${prefix}_${i}`);
+    this.transcript.hideItems(ids);
+    items.forEach((item, i) => this.seedTimes.set(ids[i], item.timestamp.getTime()));
+
+    items.forEach((item, i) => {
+      this.session.transport.sendEvent({
+        type: 'conversation.item.create',
+        item: {
+          id: ids[i],
+          type: 'message',
+          role: item.role as 'user' | 'assistant',
+          content: [
+            {
+              type: item.role === 'user' ? 'input_text' : 'output_text',
+              text: item.text,
+            },
+          ],
+        },
+      });
+    });
+  }
+
+  // A response cut at its length limit has only about limitMs of audio when
+  // the limit hits, but keeps generating until the cancel lands; measure what
+  // was heard against everything generated so the transcript is trimmed too
+  private heardFor(itemId: string): PlaybackInterruptResult | undefined {
+    const heard = this.heardAudio.get(itemId);
+    const generatedMs = this.generatedAudioMs.get(itemId);
+    if (!heard || generatedMs === undefined) return heard;
+    return { ...heard, queuedMs: Math.max(heard.queuedMs, generatedMs) };
+  }
+
+  private updateTranscript(changed: boolean) {
+    if (changed) {
+      this.emit('transcript', this.transcript.items);
+    }
+  }
+
+  private notifyTextHistory() {
+    this.emit('textHistoryChanged', [...this.textConversationHistory]);
+  }
+
+  // Make the server-side item, the cached transcript and the text-mode
+  // history match the audio the user actually heard
+  private truncateToHeard(heard: PlaybackInterruptResult) {
+    this.heardAudio.set(heard.itemId, heard);
+
+    console.log(`✂️ Truncating ${heard.itemId} at ${heard.playedMs}ms`);
+    this.session.transport.sendEvent({
+      type: 'conversation.item.truncate',
+      item_id: heard.itemId,
+      content_index: 0,
+      audio_end_ms: heard.playedMs,
+    });
+
+    // Transcript and response.done may already have arrived; if not, they
+    // are trimmed when they do. Until then the streamed partial stands in.
+    const cached = this.transcriptCache.get(heard.itemId) ?? this.transcript.partialText(heard.itemId, 'assistant');
+    if (cached !== undefined) {
+      const text = trimTranscriptToHeard(cached, heard);
+      this.transcriptCache.set(heard.itemId, text);
+      this.transcript.finalizePartial(heard.itemId, 'assistant', 0, text);
+    }
+    this.updateTranscript(this.transcript.finalizeItem(heard.itemId) || this.transcript.rebuild());
+
+    const entry = this.textHistoryByItem.get(heard.itemId);
+    if (entry) {
+      const text = trimTranscriptToHeard(entry.content[0].text, heard);
+      if (text) {
+        entry.content[0].text = text;
+      } else {
+        this.textConversationHistory = this.textConversationHistory.filter((m) => m !== entry);
+        this.textHistoryByItem.delete(heard.itemId);
+      }
+      this.notifyTextHistory();
+    }
+  }
+
+  /** Close the session and drop all listeners. The controller is unusable afterwards. */
+  dispose(): void {
+    this.cancelPendingResponse();
+    this.supervisor.cancel();
+    this.stopInputMonitoring();
+    this.supervisor.removeAllListeners();
+    this.session.close();
+    this.audio.dispose();
+    this.machine.removeAllListeners();
+    this.removeAllListeners();
+  }
+
+  // Passages from the reference documents that best match the recent conversation
+  private findGroundingPassages(): ReferencePassage[] {
+    if (this.references.isEmpty) return [];
+
+    const query = this.transcript.items
+      .filter((item) => item.role !== 'tool')
+      .slice(-GROUNDING_QUERY_ITEMS)
+      .map((item) => item.text)
+      .join(' ');
+    return this.references.search(query, MAX_GROUNDING_PASSAGES);
+  }
+
+  private createResponse(trigger: TriggerDefinition, source: TriggerSource) {
+    const passages = this.findGroundingPassages();
+    let instructions = renderTriggerInstructions(trigger, this.settings.responseLanguage);
+    if (passages.length > 0) {
+      instructions += `\n\nReference material the user provided (use it where it is relevant, and do not mention it otherwise):\n\n${passages.map(formatPassage).join('\n\n---\n\n')}`;
+    }
+    const isTextMode = this.settings.inputMode === 'text';
+    const budget = contextBudgetOf(trigger);
+    const margin = this.settings.durationMargin;
+    const maxOutputTokens = maxOutputTokensFor(trigger.duration, margin);
+    const limitMs = durationLimitMs(trigger.duration, margin);
+    this.audio.setOutputLimit(limitMs, FADE_OUT_MS);
+
+    // Follow-ups after tool calls keep the context the trigger started with
+    const context = (this.triggerContext ??= this.buildTriggerContext(trigger));
+
+    // Prepare response creation event; the input replaces the default conversation
+    const responseEvent: any = {
+      type: 'response.create',
+      response: {
+        instructions,
+        input: [...context.input, ...this.toolTurn],
+        max_output_tokens: maxOutputTokens,
+      },
+    };
+
+    console.group(`🤖 LLM Request Details (${trigger.label} via ${source.type === 'voice' ? 'Voice Trigger' : source.type === 'hotkey' ? `Hotkey ${source.combo}` : 'Manual Button'} - ${isTextMode ? 'Text' : 'Audio'} Mode)`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('Mode:', isTextMode ? 'TEXT INPUT (explicit text messages)' : 'AUDIO INPUT (explicit conversation item references)');
+    console.log('Trigger:', trigger.label, `(${trigger.duration}s, ${describeContextScope(trigger.contextScope)}, ${budget} token budget)`);
+    console.log('Delivery:', DELIVERY_LABELS[deliveryOf(trigger)]);
+    console.log('Duration:', `target ${trigger.duration}s, fade out by ${(limitMs / 1000).toFixed(1)}s, max_output_tokens ${maxOutputTokens}`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    if (passages.length > 0) {
+      console.log(`\n📚 REFERENCE PASSAGES (${passages.length} of ${this.references.passageCount}):`);
+      passages.forEach((passage, idx) => {
+        const source = passage.heading ? `${passage.documentName} › ${passage.heading}` : passage.documentName;
+        console.log(`${idx + 1}. [${source}] score ${passage.score.toFixed(2)}: "${passage.text.substring(0, 80)}..."`);
+      });
+    } else if (!this.references.isEmpty) {
+      console.log('\n📚 REFERENCE PASSAGES: none matched the recent conversation');
+    }
+    console.log('\n📋 INSTRUCTIONS SENT TO LLM:');
+    console.log(instructions);
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+    console.log('💬 CONVERSATION CONTEXT (in scope and within budget):');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    if (context.turns.length > 0) {
+      context.turns.forEach((turn, idx) => {
+        const role = turn.role === 'system' ? '🗜️ SUMMARY' : turn.role === 'user' ? '👤 USER' : '🤖 ASSISTANT';
+        const kind = `${turn.audio ? 'Audio' : 'Text'} ${turn.role === 'assistant' ? 'Output' : 'Input'}`;
+        console.log(`\n${idx + 1}. ${role}:`);
+        console.log(`   [${kind}] "${turn.text || '[No transcript]'}"`);
+      });
+    } else {
+      console.log('(No conversation history yet)');
+    }
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`ℹ️ Using explicit input field with ${context.input.length} ${isTextMode ? 'messages' : 'item references'}.`);
+    console.log(`📏 Context: ~${context.tokens}/${budget} tokens; ${context.outOfScope} turns out of scope, ${context.overBudget} over budget`);
+    if (this.toolTurn.length > 0) {
+      console.log(`🛠️ Plus ${this.toolTurn.length / 2} tool call(s) and their output`);
+    }
+
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.groupEnd();
+
+    // Create the response
+    this.awaitingCreated = true;
+    this.session.transport.sendEvent(responseEvent);
+  }
+
+  // Apply the trigger's scope, then its budget, to the conversation so far.
+  // Text mode sends text messages; audio mode references the server items so
+  // the model still hears the audio.
+  private buildTriggerContext(trigger: TriggerDefinition): TriggerContext {
+    const scope = trigger.contextScope;
+    const budget = contextBudgetOf(trigger);
+    const summary = scope.kind === 'full' ? this.context.summary : null;
+    const summaryTokens = summary ? estimateTextTokens(summary) : 0;
+    const summaryTurns = summary ? [{ role: 'system' as const, text: summary, audio: false }] : [];
+
+    if (this.settings.inputMode === 'text') {
+      // One turn per utterance, so scopes can cut inside a combined message
+      const turns: ScopedTurn<string>[] = this.textConversationHistory
+        .filter((message) => message.role !== 'system')
+        .flatMap((message) => {
+          const info = this.textTurnInfo.get(message);
+          if (info?.utterances) {
+            return info.utterances.map((utterance) => ({ role: 'user' as const, at: utterance.at, value: utterance.text }));
+          }
+          const text = message.content.map((content) => content.text).join(' ');
+          return [{ role: message.role, at: info?.at ?? null, value: text }];
+        });
+      const scoped = selectScope(turns, scope);
+      const fitted = fitToBudget(scoped, (turn) => estimateTextTokens(turn.value), budget - summaryTokens);
+
+      // Consecutive user utterances go back into one message
+      const input: TextHistoryMessage[] = summary ? [summaryMessage(summary)] : [];
+      fitted.kept.forEach((turn) => {
+        const last = input[input.length - 1];
+        if (turn.role === 'user' && last?.role === 'user') {
+          last.content[0].text += ` ${turn.value}`;
+          return;
+        }
+        input.push({
+          type: 'message',
+          role: turn.role,
+          content: [{ type: turn.role === 'assistant' ? 'output_text' : 'input_text', text: turn.value }],
+        });
+      });
+
+      return {
+        input,
+        turns: [
+          ...summaryTurns,
+          ...fitted.kept.map((turn) => ({ role: turn.role, text: turn.value, audio: false })),
+        ],
+        tokens: fitted.tokens + summaryTokens,
+        outOfScope: turns.length - scoped.length,
+        overBudget: fitted.dropped,
+      };
+    }
+
+    const turns: ScopedTurn<RealtimeItem>[] = this.sessionHistory
+      .filter((item) => item.type === 'message' && item.itemId !== this.summaryItemId)
+      .map((item) => ({
+        role: item.type === 'message' ? item.role : 'system',
+        at: this.seedTimes.get(item.itemId) ?? this.transcript.timeOf(item.itemId) ?? null,
+        value: item,
+      }));
+    const scoped = selectScope(turns, scope);
+    const fitted = fitToBudget(scoped, (turn) => this.itemTokens(turn.value), budget - summaryTokens);
+    const ids = [
+      ...(summary && this.summaryItemId ? [this.summaryItemId] : []),
+      ...fitted.kept.map((turn) => turn.value.itemId),
+    ];
+
+    return {
+      input: ids.map((id) => ({ type: 'item_reference', id })),
+      turns: [
+        ...summaryTurns,
+        ...fitted.kept.map((turn) => ({
+          role: turn.role,
+          text: this.itemText(turn.value),
+          audio:
+            turn.value.type === 'message' &&
+            turn.value.content.some((c) => c.type === 'input_audio' || c.type === 'output_audio'),
+        })),
+      ],
+      tokens: fitted.tokens + summaryTokens,
+      outOfScope: turns.length - scoped.length,
+      overBudget: fitted.dropped,
+    };
+  }
+
+  private handleTransportEvent(event: TransportEvent) {
+    this.emit('transportEvent', event);
+
+    // Out-of-band summary responses are not part of the trigger flow
+    if (this.context.handleTransportEvent(event)) {
+      return;
+    }
+
+    // Check for and suppress expected errors first
+    if (event.type === 'error') {
+      // @ts-ignore - error event structure
+      if (isExpectedErrorCode(event.error?.code)) {
+        return;
+      }
+
+      // Log other errors
+      console.group('🔴 Server Error Event');
+      console.error('Server error event:', event);
+      console.error('Error details:', JSON.stringify(event, null, 2));
+      console.groupEnd();
+
+      // A rejected response.create never produces response.done, so don't
+      // leave the agent stuck in 'generating'
+      if (this.machine.state === 'generating') {
+        this.machine.send('responseDone', 'server error');
+        this.activeResponse = { trigger: null, source: null };
+      }
+      return;
+    }
+
+    // Log important events for debugging (after filtering out suppressed errors)
+    if (event.type === 'session.created') {
+      console.log('📡 Transport event:', event.type, event);
+      // @ts-ignore
+      const sessionData = event.session;
+      console.log('  Initial session config:', sessionData);
+
+      // Every new connection (including reconnects) gets the full config
+      this.configureSession();
+    }
+
+    // Server VAD detected speech starting - interrupt immediately if audio is playing
+    if (event.type === 'input_audio_buffer.speech_started') {
+      // @ts-ignore
+      this.updateTranscript(this.transcript.markSpeechStarted(event.item_id, event.audio_start_ms));
+
+      // IMMEDIATE barge-in: Stop agent if generating speech or audio is audible;
+      // silent text hints keep going while people talk
+      if ((this.machine.state === 'generating' && this.isSpeakingResponse()) || this.audio.isAudible) {
+        console.log(`⚡ BARGE-IN: User started speaking while agent ${this.machine.state} - interrupting IMMEDIATELY`);
+        this.interrupt();
+      } else {
+        console.log(`ℹ️ Speech started but no audio playing (agent state: ${this.machine.state})`);
+      }
+    }
+
+    if (event.type === 'input_audio_buffer.speech_stopped') {
+      // @ts-ignore
+      this.updateTranscript(this.transcript.markSpeechStopped(event.item_id, event.audio_end_ms));
+    }
+
+    // Hold-to-talk commits have no VAD events; time them by the key instead
+    if (event.type === 'input_audio_buffer.committed' && this.heldSpeech) {
+      // @ts-ignore
+      this.updateTranscript(this.transcript.markHeld(event.item_id, this.heldSpeech.from, this.heldSpeech.until));
+      this.heldSpeech = null;
+    }
+
+    // Track audio items that are auto-created by server_vad (for text input mode)
+    if (event.type === 'conversation.item.created' && this.settings.inputMode === 'text') {
+      // @ts-ignore
+      const item = event.item;
+      if (item?.role === 'user' && item?.type === 'message') {
+        // Check if this is an audio input item
+        const hasAudioContent = item.content?.some((c: any) => c.type === 'input_audio');
+        if (hasAudioContent) {
+          console.log(`📌 [Text Mode] Tracking audio item ID for deletion: ${item.id}`);
+          this.audioItemIds.push(item.id);
+        }
+      }
+    }
+
+    // Confirm deletions (for debugging)
+    if (event.type === 'conversation.item.deleted') {
+      // @ts-ignore
+      console.log(`🗑️ Item deleted confirmed: ${event.item_id}`);
+    }
+
+    // Stream partial transcripts into live bubbles
+    if (event.type === 'conversation.item.input_audio_transcription.delta') {
+      // @ts-ignore
+      this.updateTranscript(this.transcript.appendPartial(event.item_id, 'user', event.content_index ?? 0, event.delta ?? ''));
+    }
+
+    if (event.type === 'conversation.item.input_audio_transcription.failed') {
+      // @ts-ignore
+      this.transcribedAudioItems.add(event.item_id);
+      // @ts-ignore
+      this.updateTranscript(this.transcript.finalizePartial(event.item_id, 'user', event.content_index ?? 0, ''));
+    }
+
+    // Listen for transcription completion
+    if (event.type === 'conversation.item.input_audio_transcription.completed') {
+      // @ts-ignore
+      const transcript: string = event.transcript;
+      // @ts-ignore
+      this.transcribedAudioItems.add(event.item_id);
+      // @ts-ignore
+      this.updateTranscript(this.transcript.finalizePartial(event.item_id, 'user', event.content_index ?? 0, transcript ?? ''));
+      if (transcript) {
+        // @ts-ignore
+        this.handleUserTranscript(transcript, event.item_id);
+      }
+    }
+
+    // Track response lifecycle for debugging
+    if (event.type === 'response.created') {
+      // @ts-ignore
+      const responseId: string | null = event.response?.id ?? null;
+      this.awaitingCreated = false;
+      if (this.discardNextCreated) {
+        // Requested before an interrupt; cancel it now that it has an id
+        this.discardNextCreated = false;
+        console.log(`📝 Response ${responseId} created after an interrupt - cancelling`);
+        if (responseId) {
+          this.cancelledResponses.set(responseId, { trigger: null, source: null });
+          this.session.transport.sendEvent({ type: 'response.cancel', response_id: responseId });
+        }
+      } else {
+        console.log('📝 Response created by server');
+        this.currentResponseId = responseId;
+        this.machine.send('responseCreated');
+        this.emit('responseStarted', this.activeResponse);
+      }
+    }
+
+    if (event.type === 'response.output_item.added') {
+      console.log('📝 Response output item added');
+      // Remember which trigger produced this item so the transcript can show it
+      // @ts-ignore
+      const itemId: string | undefined = event.item?.id;
+      const { trigger, source } = this.activeResponse;
+      if (itemId && trigger && source) {
+        const delivery = deliveryOf(trigger);
+        this.responseTriggers.set(itemId, {
+          id: trigger.id,
+          label: trigger.label,
+          source: source.type,
+          phrase: source.type === 'voice' ? source.match.matchedText : source.type === 'hotkey' ? source.combo : undefined,
+          // Silent hints have no played length to compare
+          targetMs: delivery === 'text' ? undefined : trigger.duration * 1000,
+        });
+        this.updateTranscript(this.transcript.rebuild());
+
+        // @ts-ignore
+        if (event.item?.type === 'message') {
+          this.updateHint({
+            id: itemId,
+            triggerId: trigger.id,
+            label: trigger.label,
+            icon: trigger.icon,
+            custom: !DEFAULT_TRIGGERS.some((t) => t.id === trigger.id),
+            delivery,
+            source: source.type,
+            phrase: source.type === 'voice' ? source.match.matchedText : source.type === 'hotkey' ? source.combo : undefined,
+            text: '',
+            timestamp: new Date(this.triggeredAt),
+            isLive: true,
+            contextTokens: this.triggerContext?.tokens ?? 0,
+            contextTurns: this.triggerContext?.turns.length ?? 0,
+            replayable: false,
+          });
+        }
+      }
+    }
+
+    // Text responses stream their text, spoken ones their transcript
+    if (event.type === 'response.output_text.delta' || event.type === 'response.output_audio_transcript.delta') {
+      // @ts-ignore
+      const hint = this.hints.get(event.item_id);
+      if (hint?.isLive) {
+        // @ts-ignore
+        this.updateHint({ ...hint, text: hint.text + (event.delta ?? '') });
+      }
+      // @ts-ignore
+      if (event.type === 'response.output_text.delta') this.markFirstOutput(event.item_id);
+    }
+
+    // Measured from the PCM byte count, whether or not it gets played
+    if (event.type === 'response.output_audio.delta' && event.delta) {
+      this.generatedAudioMs.set(event.item_id, (this.generatedAudioMs.get(event.item_id) ?? 0) + audioDeltaMs(event.delta));
+    }
+
+    // Audio deltas (WebSocket) or output buffer events (WebRTC); audio still
+    // arriving for a response we already interrupted is dropped
+    this.audio.handleTransportEvent(event, this.machine.state === 'interrupted');
+
+    // Capture audio transcript when it completes
+    if (event.type === 'response.output_audio_transcript.done') {
+      console.log('🎯 Output audio transcript done event received!', event);
+      // @ts-ignore
+      const itemId = event.item_id;
+      // @ts-ignore
+      const transcript = event.transcript;
+      console.log(`  item_id: ${itemId}, transcript length: ${transcript?.length}`);
+      if (itemId && transcript) {
+        const heard = this.heardFor(itemId);
+        const text = heard ? trimTranscriptToHeard(transcript, heard) : transcript;
+        console.log(`💾 Caching transcript for ${itemId}: ${text.substring(0, 50)}...`);
+        this.transcriptCache.set(itemId, text);
+        // @ts-ignore
+        this.updateTranscript(this.transcript.finalizePartial(itemId, 'assistant', event.content_index ?? 0, text));
+      }
+    }
+
+    if (event.type === 'response.output_item.done') {
+      // @ts-ignore
+      const item = event.item;
+      if (item?.type === 'function_call' && item.status === 'completed') {
+        this.startToolCall(item);
+      }
+    }
+
+    if (event.type === 'response.done') {
+      // @ts-ignore
+      const responseId: string | undefined = event.response?.id;
+      if (responseId && responseId !== this.currentResponseId) {
+        this.handleCancelledResponseDone(responseId, event);
+      } else {
+        this.currentResponseId = null;
+        this.handleResponseDone(event);
+      }
+    }
+
+    // Audio interruption is handled separately via interrupt()
+    // Don't auto-interrupt on transcription events
+  }
+
+  // Configure session for silent listening with transcription
+  private configureSession() {
+    console.log('🔧 Configuring session for trigger-based responses...');
+    this.session.transport.sendEvent({
+      type: 'session.update',
+      session: {
+        type: 'realtime', // Required field
+        output_modalities: ['text'], // Text-only mode - prevents audio responses
+        tools: this.tools.definitions,
+        tool_choice: 'auto',
+        audio: {
+          input: {
+            transcription: transcriptionConfig(this.settings),
+            // Hold-to-talk commits the buffer itself on key release
+            turn_detection: this.settings.holdToTalk
+              ? null
+              : {
+                  type: 'semantic_vad',
+                  eagerness: 'low',
+                  create_response: false, // CRITICAL: Disable auto-response
+                  interrupt_response: false,
+                },
+          },
+          output: {
+            voice: this.settings.voice, // Voice config
+          },
+        },
+      },
+    });
+  }
+
+  private handleUserTranscript(transcript: string, itemId: string) {
+    // Check for interrupt phrases first
+    const interruptMatch = findBestTriggerMatch(transcript, [
+      { id: 'interrupt', phrases: this.settings.interruptPhrases },
+    ]);
+
+    if (interruptMatch && this.isBusy) {
+      console.log(`⛔ Interrupt phrase "${interruptMatch.phrase}" detected during ${this.machine.state}: "${transcript}" (score ${interruptMatch.score.toFixed(2)})`);
+      this.interrupt();
+      return;
+    }
+
+    // Check for trigger phrases
+    const triggerMatch = findBestTriggerMatch(transcript, toTriggerSpecs(this.settings.triggers, this.settings.transcriptionLanguage));
+
+    // In text mode, accumulate transcripts before triggering
+    if (this.settings.inputMode === 'text') {
+      console.log(`📝 [Text Mode] Accumulating transcript: "${transcript}"`);
+      this.accumulatedTranscripts.push({ text: transcript, at: this.transcript.timeOf(itemId) ?? Date.now() });
+    }
+
+    if (triggerMatch) {
+      this.trigger(triggerMatch.triggerId, { type: 'voice', transcript, match: triggerMatch });
+    }
+  }
+
+  private handleResponseDone(event: TransportEvent) {
+    console.log('✅ Response generation complete - switching back to text-only mode');
+
+    // @ts-ignore
+    const response = event.response;
+
+    // A response that called tools continues with their output; the trigger
+    // isn't over until the follow-up response finishes
+    const { trigger, source } = this.activeResponse;
+    if (
+      trigger &&
+      source &&
+      this.machine.state === 'generating' &&
+      response?.output?.some((item: any) => item.type === 'function_call')
+    ) {
+      void this.continueAfterTools(trigger, source);
+      return;
+    }
+
+    const assistantText = this.recordAssistantOutput(event);
+
+    // Clear accumulated data for next turn (both modes)
+    this.accumulatedTranscripts = [];
+    this.toolTurn = [];
+    this.triggerContext = null;
+
+    // Switch back to text-only mode (silent) for future responses
+    this.session.transport.sendEvent({
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        output_modalities: ['text'], // Back to text-only (silent)
+      },
+    });
+
+    this.emit('responseFinished', { ...this.activeResponse, text: assistantText });
+    this.activeResponse = { trigger: null, source: null };
+
+    // Drain until the tracker reports the last item finished playing; if
+    // nothing is queued (text-only or already played out) finish right away
+    this.machine.send(this.audio.isActive ? 'awaitPlayback' : 'responseDone');
+
+    this.compactContext();
+  }
+
+  // The interrupt already reset the trigger state (and another trigger may be
+  // running), so only the response's own item is finished off
+  private handleCancelledResponseDone(responseId: string, event: TransportEvent) {
+    console.log(`ℹ️ response.done for cancelled response ${responseId}`);
+    const info = this.cancelledResponses.get(responseId) ?? { trigger: null, source: null };
+    this.cancelledResponses.delete(responseId);
+    const text = this.recordAssistantOutput(event);
+    this.emit('responseFinished', { ...info, text });
+  }
+
+  // Keep a finished response's text: text-mode history, transcript and hint.
+  // Returns the text (only what was heard, if interrupted).
+  private recordAssistantOutput(event: TransportEvent): string {
+    // @ts-ignore
+    const response = event.response;
+
+    // Extract text transcript from the response
+    let assistantText = '';
+    let assistantItemId: string | undefined;
+    if (response?.output && response.output.length > 0) {
+      const assistantOutput = response.output[0];
+      assistantItemId = assistantOutput.id;
+
+      // Check for audio transcript first (since we generate audio responses)
+      if (assistantOutput.type === 'message') {
+        assistantOutput.content?.forEach((content: any) => {
+          if (content.type === 'output_audio' && content.transcript) {
+            assistantText = content.transcript;
+          } else if (content.type === 'output_text' || content.type === 'text') {
+            assistantText = content.text;
+          }
+        });
+      }
+    }
+
+    // An interrupted response keeps only the part that was heard
+    const heard = assistantItemId ? this.heardFor(assistantItemId) : undefined;
+    if (heard && assistantText) {
+      assistantText = trimTranscriptToHeard(assistantText, heard);
+    }
+
+    // In text mode, add the assistant's response transcript to history
+    if (this.settings.inputMode === 'text') {
+      console.log('💬 [Text Mode] Response:', response);
+      if (assistantText) {
+        console.log(`💾 [Text Mode] Adding assistant response to history: "${assistantText.substring(0, 50)}..."`);
+        const entry: TextHistoryMessage = {
+          type: 'message',
+          role: 'assistant',
+          content: [
+            {
+              type: 'output_text',
+              text: assistantText,
+            },
+          ],
+        };
+        this.textConversationHistory.push(entry);
+        this.textTurnInfo.set(entry, {
+          at: (assistantItemId && this.transcript.timeOf(assistantItemId)) || Date.now(),
+        });
+        if (assistantItemId) {
+          this.textHistoryByItem.set(assistantItemId, entry);
+        }
+        this.notifyTextHistory();
+      }
+    }
+
+    // A cancelled response may never send its transcript done event
+    if (assistantItemId) {
+      this.updateTranscript(this.transcript.finalizeItem(assistantItemId));
+    }
+
+    const hint = assistantItemId ? this.hints.get(assistantItemId) : undefined;
+    if (hint?.isLive) {
+      this.updateHint({ ...hint, text: assistantText || hint.text, isLive: false });
+    }
+
+    return assistantText;
+  }
+
+  private cancelPendingResponse() {
+    if (this.pendingResponse) clearTimeout(this.pendingResponse);
+    this.pendingResponse = null;
+  }
+
+  // Text of a server conversation item, using cached transcripts for audio
+  private itemText(item: RealtimeItem): string {
+    if (item.type !== 'message') return '';
+    return item.content
+      .map((content: any) => {
+        if (content.type === 'output_audio') {
+          return this.transcriptCache.get(item.itemId) || content.transcript || '';
+        }
+        return content.type === 'input_audio' ? content.transcript || '' : content.text || '';
+      })
+      .join(' ')
+      .trim();
+  }
+
+  private itemTokens(item: RealtimeItem): number {
+    return estimateItemTokens(item, this.itemText(item));
+  }
+
+  // Fold the oldest turns into the running summary once the conversation
+  // outgrows the largest trigger budget
+  private compactContext() {
+    if (this.context.isSummarizing || this.settings.triggers.length === 0) return;
+    const threshold = Math.max(...this.settings.triggers.map(contextBudgetOf));
+
+    if (this.settings.inputMode === 'text') {
+      const turns = this.textConversationHistory.filter((message) => message.role !== 'system');
+      const compacted = planCompaction(turns, textMessageTokens, threshold);
+      if (!compacted) return;
+
+      this.context.summarize(
+        compacted.map((message) => ({
+          role: message.role,
+          text: message.content.map((content) => content.text).join(' '),
+        })),
+        (summary) => {
+          const folded = new Set(compacted);
+          this.textConversationHistory = [
+            summaryMessage(summary),
+            ...this.textConversationHistory.filter((m) => m.role !== 'system' && !folded.has(m)),
+          ];
+          this.notifyTextHistory();
+        }
+      );
+      return;
+    }
+
+    const items = this.sessionHistory.filter(
+      (item) => item.type === 'message' && item.itemId !== this.summaryItemId
+    );
+    const compacted = planCompaction(items, (item) => this.itemTokens(item), threshold);
+    if (!compacted) return;
+
+    const session = this.session;
+    const turns: ContextTurn[] = compacted.map((item) => ({
+      role: item.type === 'message' ? item.role : 'system',
+      text: this.itemText(item),
+    }));
+    this.context.summarize(turns, (summary) => {
+      if (session !== this.currentSession) return; // Reconnected meanwhile
+
+      // The transcript keeps showing what the server forgets
+      const ids = compacted.map((item) => item.itemId);
+      this.transcript.keepDeleted(ids);
+      if (this.summaryItemId) ids.push(this.summaryItemId);
+
+      console.log(`🗑️ Deleting ${ids.length} summarized items from the server conversation`);
+      ids.forEach((id) => session.transport.sendEvent({ type: 'conversation.item.delete', item_id: id }));
+      this.insertSummaryItem(summary);
+    });
+  }
+
+  // Put the running summary at the start of the server conversation
+  private insertSummaryItem(summary: string) {
+    const id = `summary_${Date.now().toString(36)}`;
+    this.transcript.hideItems([id]);
+    this.session.transport.sendEvent({
+      type: 'conversation.item.create',
+      previous_item_id: 'root',
+      item: {
+        id,
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text: SUMMARY_PREFIX + summary }],
+      },
+    });
+    this.summaryItemId = id;
+  }
+
+  // Text mode: delete user audio items from the server conversation once
+  // their transcript is final (responses use explicit text input instead)
+  private deleteTranscribedAudioItems() {
+    const done = this.audioItemIds.filter((id) => this.transcribedAudioItems.has(id));
+    if (done.length === 0) return;
+
+    console.log(`🗑️ [Text Mode] Deleting ${done.length} transcribed audio items`);
+    this.transcript.keepDeleted(done);
+    done.forEach((id) => {
+      this.session.transport.sendEvent({ type: 'conversation.item.delete', item_id: id });
+      this.transcribedAudioItems.delete(id);
+    });
+    this.audioItemIds = this.audioItemIds.filter((id) => !done.includes(id));
+  }
+
+  private startToolCall(item: { id: string; call_id: string; name: string; arguments: string }) {
+    console.log(`🛠️ Tool call: ${item.name}(${item.arguments})`);
+    const call: TranscriptToolCall = { name: item.name, arguments: item.arguments, status: 'running' };
+    this.updateTranscript(this.transcript.recordToolCall(item.id, call));
+
+    const session = this.session;
+    const run = this.tools
+      .execute(item.name, item.arguments, {
+        notes: this.settings.notes,
+        references: this.references,
+      })
+      .then(({ output, ok }) => {
+        console.log(`🛠️ ${item.name} → ${output.substring(0, 80)}`);
+        this.updateTranscript(
+          this.transcript.recordToolCall(item.id, { ...call, output, status: ok ? 'done' : 'error' })
+        );
+        if (session !== this.currentSession) return; // Connection replaced meanwhile
+
+        session.transport.sendEvent({
+          type: 'conversation.item.create',
+          item: { type: 'function_call_output', call_id: item.call_id, output },
+        });
+        this.toolTurn.push(
+          { type: 'function_call', call_id: item.call_id, name: item.name, arguments: item.arguments },
+          { type: 'function_call_output', call_id: item.call_id, output }
+        );
+      });
+    this.pendingToolCalls.push(run);
+  }
+
+  /** Play a response's cached audio again (what was heard of it) with the current output settings. */
+  async replay(itemId: string): Promise<void> {
+    let samples = this.audio.recordedAudio(itemId);
+    if (!samples) return;
+
+    const heard = this.heardAudio.get(itemId);
+    if (heard) {
+      samples = samples.subarray(0, Math.round((heard.playedMs / 1000) * OUTPUT_SAMPLE_RATE));
+    }
+    console.log(`🔁 Replaying ${itemId} (${((samples.length / OUTPUT_SAMPLE_RATE)).toFixed(1)}s)`);
+    await playPcm16(samples, OUTPUT_SAMPLE_RATE, this.output);
+  }
+
+  private updateHint(hint: Hint) {
+    this.hints.set(hint.id, hint);
+    this.emit('hint', hint);
+  }
+
+  // Latency runs from the trigger to the first audio heard (or text shown)
+  private markFirstOutput(itemId: string) {
+    const hint = this.hints.get(itemId);
+    if (hint && hint.latencyMs === undefined) {
+      this.updateHint({ ...hint, latencyMs: Date.now() - hint.timestamp.getTime() });
+    }
+  }
+
+  // Responses we didn't trigger are spoken (the session default once switched)
+  private isSpeakingResponse(): boolean {
+    const { trigger } = this.activeResponse;
+    return !trigger || deliveryOf(trigger) !== 'text';
+  }
+
+  private async continueAfterTools(trigger: TriggerDefinition, source: TriggerSource) {
+    const pending = this.pendingToolCalls;
+    this.pendingToolCalls = [];
+    await Promise.all(pending);
+
+    // Interrupted, disconnected or superseded while the tools ran
+    if (this.machine.state !== 'generating' || this.activeResponse.trigger !== trigger) return;
+
+    console.log('🛠️ Tool output sent, requesting follow-up response...');
+    this.createResponse(trigger, source);
+  }
+
+  // A response ran past its target plus margin and was faded out: stop
+  // generating and keep only what was played
+  private handleOutputLimited(result: PlaybackInterruptResult) {
+    const entry = this.responseTriggers.get(result.itemId);
+    console.log(`⏱️ ${entry?.label ?? result.itemId} overran its target; faded out at ${result.playedMs}ms`);
+    if (entry) {
+      this.responseTriggers.set(result.itemId, { ...entry, limitedAtMs: result.playedMs });
+    }
+    const hint = this.hints.get(result.itemId);
+    if (hint) {
+      this.updateHint({ ...hint, limited: true });
+    }
+
+    // Generation may already be done, with the rest of the audio buffered
+    if (this.currentResponseId) {
+      this.session.transport.sendEvent({
+        type: 'response.cancel',
+        response_id: this.currentResponseId,
+      });
+    }
+    this.truncateToHeard(result);
+  }
+
+  // Actual vs. target duration for triggered responses
+  private logDuration(itemId: string, playedMs: number) {
+    const entry = this.responseTriggers.get(itemId);
+    if (entry?.targetMs === undefined) return;
+
+    const generated = this.generatedAudioMs.get(itemId);
+    console.log(
+      `⏱️ ${entry.label}: played ${(playedMs / 1000).toFixed(1)}s of ${(entry.targetMs / 1000).toFixed(1)}s target` +
+        (generated !== undefined ? `, ${(generated / 1000).toFixed(1)}s generated` : '') +
+        (entry.limitedAtMs !== undefined ? ' (cut at limit)' : '')
+    );
+  }
+
+  private handleHistoryUpdated(history: RealtimeItem[]) {
+    console.log('📜 History updated, total items:', history.length);
+
+    // Store history for LLM context logging
+    this.sessionHistory = history;
+    this.updateTranscript(this.transcript.applyHistory(history));
+  }
+
+  private handleSessionError(error: any) {
+    // Suppress expected errors
+    if (isExpectedErrorCode(error?.error?.error?.code)) {
+      return;
+    }
+
+    // The SDK only knows the agent's tools; ours run from handleTransportEvent
+    const missingTool = /^Tool (.+) not found$/.exec(error?.error?.message ?? '');
+    if (missingTool && this.tools.has(missingTool[1])) {
+      return;
+    }
+
+    console.group('🔴 Session Error Captured');
+    console.error('Raw error object:', error);
+    console.error('Error type:', typeof error);
+    console.error('Error constructor:', error?.constructor?.name);
+
+    if (error instanceof Error) {
+      console.error('Error.message:', error.message);
+      console.error('Error.stack:', error.stack);
+      console.error('Error.name:', error.name);
+    }
+
+    try {
+      console.error('JSON.stringify:', JSON.stringify(error, null, 2));
+    } catch (e) {
+      console.error('Cannot stringify error:', e);
+    }
+
+    console.error('Object.keys:', error ? Object.keys(error) : 'null/undefined');
+    console.error('Object.getOwnPropertyNames:', error ? Object.getOwnPropertyNames(error) : 'null/undefined');
+
+    // Try to extract all properties
+    if (error && typeof error === 'object') {
+      const allProps = Object.getOwnPropertyNames(error);
+      allProps.forEach(key => {
+        try {
+          console.error(`  ${key}:`, (error as any)[key]);
+        } catch (e) {
+          console.error(`  ${key}: [Cannot access]`);
+        }
+      });
+    }
+
+    console.groupEnd();
+
+    this.emit('error', error);
+  }
+}
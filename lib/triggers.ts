@@ -0,0 +1,175 @@
+// Registry of user-defined response triggers.
+//
+// Every triggered response (voice phrase, hotkey or manual button) is
+// described by a TriggerDefinition: the phrases that fire it, the instruction
+// template sent with `response.create`, the target duration, how much of the
+// conversation it should look at and the token budget for that context. The
+// page runs all of them through one code path, so adding a trigger is a
+// settings change rather than a code change.
+//
+// Phrases in `phrases` apply in every language; `phrasesByLanguage` adds
+// phrases that only apply while transcribing that language (or all of them
+// when transcription auto-detects).
+//
+// `delivery` picks how the response reaches the user: spoken, shown silently
+// as a text hint card, or both (spoken, with the transcript in the card).
+
+import type { TriggerSpec } from './triggerMatcher';
+import {
+  LanguageCode,
+  LANGUAGE_CODES,
+  languageInstruction,
+  ResponseLanguage,
+  TranscriptionLanguage,
+} from './languages';
+
+// What part of the conversation a triggered response is given
+export type TriggerContextScope =
+  | { kind: 'seconds'; seconds: number } // Turns that started in the last N seconds
+  | { kind: 'userTurns'; turns: number } // From the user's Nth-last turn on
+  | { kind: 'sinceResponse' } // Everything after the previous assistant response
+  | { kind: 'full' }; // The whole session, including the running summary
+
+export type TriggerDelivery = 'audio' | 'text' | 'both';
+
+export const DELIVERY_LABELS: Record<TriggerDelivery, string> = {
+  audio: 'Spoken',
+  text: 'Text only (silent)',
+  both: 'Spoken + text',
+};
+
+export type TriggerDefinition = {
+  id: string;
+  label: string;
+  icon?: string;
+  phrases: string[];
+  phrasesByLanguage?: Partial<Record<LanguageCode, string[]>>;
+  synonyms?: string[];
+  threshold?: number;
+  phraseThresholds?: Record<string, number>; // Keyed by phrase or synonym
+  instructions: string; // Template, see renderTriggerInstructions
+  duration: number; // Target response length in seconds
+  contextScope: TriggerContextScope;
+  contextBudget?: number; // Max estimated tokens of conversation context
+  delivery?: TriggerDelivery; // Defaults to audio
+};
+
+// For triggers saved before budgets existed
+export const DEFAULT_CONTEXT_BUDGET = 4000;
+
+export const RECENT_CONTEXT_SCOPE: TriggerContextScope = { kind: 'seconds', seconds: 60 };
+
+/** Phrase for the {context} placeholder. */
+export function describeContextScope(scope: TriggerContextScope): string {
+  switch (scope.kind) {
+    case 'seconds':
+      return `the last ${scope.seconds} seconds of the conversation`;
+    case 'userTurns':
+      return scope.turns === 1 ? "the user's last turn" : `the user's last ${scope.turns} turns`;
+    case 'sinceResponse':
+      return 'what was said since your previous response';
+    case 'full':
+      return 'the entire conversation context';
+  }
+}
+
+export const DEFAULT_TRIGGERS: TriggerDefinition[] = [
+  {
+    id: 'quickHint',
+    label: 'Quick Hint',
+    icon: '🚀',
+    phrases: ['good question'],
+    phrasesByLanguage: { es: ['buena pregunta'], zh: ['好问题'] },
+    instructions:
+      '{language} Provide a quick hint (around {duration} seconds) based on {context}. Be brief and actionable, 1-2 sentences.',
+    duration: 10,
+    contextScope: RECENT_CONTEXT_SCOPE,
+    contextBudget: 2000,
+  },
+  {
+    id: 'fullGuidance',
+    label: 'Full Guidance',
+    icon: '💡',
+    phrases: ['let me think'],
+    phrasesByLanguage: { es: ['déjame pensar'], zh: ['让我想想'] },
+    instructions:
+      '{language} Provide full guidance (around {duration} seconds) based on {context}. Be comprehensive with steps and examples.',
+    duration: 20,
+    contextScope: { kind: 'full' },
+    contextBudget: 8000,
+  },
+];
+
+export function createTrigger(existing: TriggerDefinition[]): TriggerDefinition {
+  let index = existing.length + 1;
+  while (existing.some((t) => t.id === `custom-${index}`)) index++;
+
+  return {
+    id: `custom-${index}`,
+    label: `Custom Trigger ${index}`,
+    phrases: [],
+    instructions:
+      '{language} Respond (around {duration} seconds) based on {context}.',
+    duration: 15,
+    contextScope: RECENT_CONTEXT_SCOPE,
+    contextBudget: DEFAULT_CONTEXT_BUDGET,
+  };
+}
+
+/** Fill in fields that triggers saved by earlier versions lack. */
+export function upgradeTrigger(
+  trigger: Omit<TriggerDefinition, 'contextScope'> & {
+    contextScope?: TriggerContextScope;
+    contextWindow?: 'recent' | 'full'; // Replaced by contextScope
+  }
+): TriggerDefinition {
+  const { contextWindow, ...rest } = trigger;
+  return {
+    ...rest,
+    // The language used to be hard-coded into every template
+    instructions: rest.instructions.replace('RESPOND IN ENGLISH ONLY.', '{language}'),
+    contextScope: trigger.contextScope ?? (contextWindow === 'full' ? { kind: 'full' } : RECENT_CONTEXT_SCOPE),
+  };
+}
+
+export function contextBudgetOf(trigger: TriggerDefinition): number {
+  return trigger.contextBudget ?? DEFAULT_CONTEXT_BUDGET;
+}
+
+export function deliveryOf(trigger: TriggerDefinition): TriggerDelivery {
+  return trigger.delivery ?? 'audio';
+}
+
+/** Output modalities for the response; 'both' speaks and streams the transcript. */
+export function outputModalitiesFor(delivery: TriggerDelivery): ['audio'] | ['text'] {
+  return delivery === 'text' ? ['text'] : ['audio'];
+}
+
+/**
+ * Fill in the instruction template. Supported placeholders:
+ * {duration}, {label}, {context} and {language}.
+ */
+export function renderTriggerInstructions(trigger: TriggerDefinition, language: ResponseLanguage): string {
+  return trigger.instructions
+    .replace(/\{duration\}/g, String(trigger.duration))
+    .replace(/\{label\}/g, trigger.label)
+    .replace(/\{context\}/g, describeContextScope(trigger.contextScope))
+    .replace(/\{language\}/g, languageInstruction(language));
+}
+
+/** Phrases that fire the trigger while transcribing in `language`. */
+export function activePhrases(trigger: TriggerDefinition, language: TranscriptionLanguage): string[] {
+  const byLanguage = trigger.phrasesByLanguage ?? {};
+  const languages = language === 'auto' ? LANGUAGE_CODES : [language];
+  return [...trigger.phrases, ...languages.flatMap((code) => byLanguage[code] ?? [])];
+}
+
+export function toTriggerSpecs(triggers: TriggerDefinition[], language: TranscriptionLanguage): TriggerSpec[] {
+  return triggers.map((trigger) => ({
+    id: trigger.id,
+    phrases: activePhrases(trigger, language),
+    synonyms: trigger.synonyms,
+    threshold: trigger.threshold,
+    phraseThresholds: trigger.phraseThresholds,
+  }));
+}
@@ -0,0 +1,36 @@
+// Minimal strongly-typed event emitter with no DOM or Node dependencies, so
+// the session layer can run the same way in the browser and in test drivers.
+
+export type EventMap = Record<string, unknown[]>;
+
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+export class TypedEventEmitter<Events extends EventMap> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /** Subscribe to an event. Returns a function that removes the listener. */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    set.add(listener);
+    this.listeners[event] = set;
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" listener:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,366 @@
+// WebRTC audio path: the SDK opens the mic and plays the remote track on an
+// <audio> element. No audio bytes reach us, so playback is tracked from the
+// output_audio_buffer.started/stopped/cleared events (keyed by response id)
+// and wall-clock time.
+//
+// Without the audio itself we can't know how long an interrupted item would
+// have been; it is estimated from the transcript streamed so far. The output
+// limit is likewise timed from playback start, fading the element's volume.
+//
+// The SDK always opens the default mic; a chosen device's track replaces it on
+// the peer connection's sender (also how devices are switched live), and an
+// AnalyserNode on that track drives the input meter.
+//
+// Output volume and device are the element's volume and setSinkId. Playback
+// speed can't change on a live stream, so it is ignored here.
+
+import {
+  OpenAIRealtimeWebRTC,
+  RealtimeSession,
+  TransportEvent,
+} from '@openai/agents/realtime';
+import { TypedEventEmitter } from './typedEventEmitter';
+import type { PlaybackInterruptResult } from './playbackTracker';
+import type { AudioTransport, AudioTransportEvents } from './audioTransport';
+import { inputConstraints } from './inputDevices';
+import { measureFloat32 } from './inputLevel';
+import { DEFAULT_OUTPUT, OutputSettings, supportsOutputDeviceSelection } from './outputAudio';
+
+// Average speaking rate used to estimate an item's full length
+const ESTIMATED_MS_PER_WORD = 400;
+
+const FADE_STEP_MS = 50;
+
+const METER_INTERVAL_MS = 100;
+
+type PlayingItem = {
+  itemId: string;
+  startedAt: number | null;
+  words: number; // Transcript words streamed so far
+};
+
+export class WebRtcAudioTransport
+  extends TypedEventEmitter<AudioTransportEvents>
+  implements AudioTransport
+{
+  readonly kind = 'webrtc' as const;
+  readonly audioElement: HTMLAudioElement | undefined;
+
+  private session: RealtimeSession<any> | null = null;
+  private muted = false;
+  private itemsByResponse = new Map<string, PlayingItem>();
+  private pending = new Set<string>(); // Response ids with audio not yet finished playing
+  private audible: string | null = null; // Response id currently playing
+  private outputLimit: { limitMs: number; fadeMs: number } | null = null;
+  private limitTimer: ReturnType<typeof setTimeout> | null = null;
+  private fadeTimer: ReturnType<typeof setInterval> | null = null;
+  private volumeBeforeFade: number | null = null;
+  private output: OutputSettings = DEFAULT_OUTPUT;
+  private deviceId: string | null = null;
+  private peerConnection: RTCPeerConnection | null = null;
+  private meter: { context: AudioContext; timer: ReturnType<typeof setInterval> } | null = null;
+
+  constructor() {
+    super();
+    // Own the element so output can be controlled (and reused across reconnects)
+    if (typeof Audio !== 'undefined') {
+      this.audioElement = new Audio();
+      this.audioElement.autoplay = true;
+    }
+  }
+
+  get isActive(): boolean {
+    return this.pending.size > 0;
+  }
+
+  get isAudible(): boolean {
+    return this.audible !== null;
+  }
+
+  createTransportLayer(): OpenAIRealtimeWebRTC {
+    return new OpenAIRealtimeWebRTC({
+      audioElement: this.audioElement,
+      changePeerConnection: (peerConnection) => this.attachInput(peerConnection),
+    });
+  }
+
+  async prepare(): Promise<void> {
+    // The SDK sets up the peer connection's media when the session connects
+  }
+
+  async start(session: RealtimeSession<any>): Promise<void> {
+    this.session = session;
+    if (this.muted) {
+      session.mute(true);
+    }
+    // The mic streams continuously from here, so one anchor covers the session
+    this.emit('audioSent', 0);
+  }
+
+  async setMuted(muted: boolean): Promise<void> {
+    this.muted = muted;
+    this.session?.mute(muted);
+  }
+
+  async setInputDevice(deviceId: string | null): Promise<void> {
+    this.deviceId = deviceId;
+    if (this.peerConnection && this.peerConnection.connectionState !== 'closed') {
+      await this.replaceInput(this.peerConnection);
+      console.log(`🎤 Input switched to ${deviceId ?? 'the default device'}`);
+    }
+  }
+
+  async suspend(): Promise<void> {
+    this.session = null;
+    this.detachInput();
+    this.finishAll(true);
+  }
+
+  async stop(): Promise<void> {
+    this.session = null;
+    this.detachInput();
+    this.finishAll(true);
+    this.muted = false;
+  }
+
+  handleTransportEvent(event: TransportEvent, dropAudio: boolean) {
+    // @ts-ignore - raw server events
+    const responseId: string | undefined = event.response_id;
+
+    if (event.type === 'response.output_item.added' && responseId) {
+      // @ts-ignore
+      const itemId: string | undefined = event.item?.id;
+      if (itemId) {
+        this.itemsByResponse.set(responseId, { itemId, startedAt: null, words: 0 });
+      }
+    }
+
+    if (event.type === 'response.output_audio_transcript.delta' && responseId) {
+      const item = this.itemsByResponse.get(responseId);
+      // @ts-ignore
+      const delta: string = event.delta ?? '';
+      if (item) item.words += delta.split(/\s+/).filter(Boolean).length;
+    }
+
+    if (event.type === 'response.output_audio.done' && responseId && !dropAudio) {
+      if (this.itemsByResponse.get(responseId)?.startedAt === null) {
+        this.pending.add(responseId);
+      }
+    }
+
+    if (event.type === 'output_audio_buffer.started' && responseId) {
+      const item = this.itemsByResponse.get(responseId);
+      if (item && !dropAudio) {
+        item.startedAt = Date.now();
+        this.pending.add(responseId);
+        this.audible = responseId;
+        this.emit('playbackStarted', item.itemId);
+        this.scheduleLimit(responseId);
+      }
+    }
+
+    if (
+      (event.type === 'output_audio_buffer.stopped' || event.type === 'output_audio_buffer.cleared') &&
+      responseId
+    ) {
+      this.finish(responseId, event.type === 'output_audio_buffer.cleared');
+    }
+  }
+
+  async interrupt(): Promise<PlaybackInterruptResult | null> {
+    const responseId = this.audible;
+    const item = responseId ? this.itemsByResponse.get(responseId) : undefined;
+
+    this.clearOutputBuffer();
+    if (!responseId || !item || item.startedAt === null) {
+      this.finishAll(true);
+      return null;
+    }
+
+    const playedMs = Date.now() - item.startedAt;
+    const queuedMs = Math.max(playedMs, item.words * ESTIMATED_MS_PER_WORD);
+    this.finishAll(true);
+    return { itemId: item.itemId, playedMs, queuedMs };
+  }
+
+  setOutputLimit(limitMs: number | null, fadeMs: number) {
+    this.outputLimit = limitMs === null ? null : { limitMs, fadeMs };
+  }
+
+  async setOutput(output: OutputSettings): Promise<void> {
+    const deviceChanged = output.deviceId !== this.output.deviceId;
+    this.output = output;
+    const element = this.audioElement;
+    if (!element) return;
+
+    // Mid-fade the new volume is restored once the fade is cleared
+    if (this.volumeBeforeFade === null) {
+      element.volume = output.volume;
+    }
+    if (deviceChanged && supportsOutputDeviceSelection()) {
+      try {
+        await element.setSinkId(output.deviceId ?? '');
+        console.log(`🔈 Output routed to ${output.deviceId ?? 'the default device'}`);
+      } catch (error) {
+        console.error('Failed to switch output device:', error);
+      }
+    }
+  }
+
+  recordedAudio(): null {
+    return null;
+  }
+
+  reset() {
+    this.clearLimit();
+    this.pending.clear();
+    this.audible = null;
+    this.itemsByResponse.clear();
+  }
+
+  dispose() {
+    this.detachInput();
+    this.reset();
+    this.removeAllListeners();
+  }
+
+  // Called by the SDK before the offer is made, with the default mic attached
+  private async attachInput(peerConnection: RTCPeerConnection): Promise<RTCPeerConnection> {
+    this.peerConnection = peerConnection;
+    if (this.deviceId) {
+      await this.replaceInput(peerConnection);
+    } else {
+      const track = peerConnection.getSenders().find((sender) => sender.track?.kind === 'audio')?.track;
+      if (track) this.startMeter(track);
+    }
+    return peerConnection;
+  }
+
+  private async replaceInput(peerConnection: RTCPeerConnection) {
+    const sender = peerConnection.getSenders().find((s) => s.track?.kind === 'audio' || s.track === null);
+    if (!sender) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia(inputConstraints(this.deviceId));
+    const track = stream.getAudioTracks()[0];
+    track.enabled = !this.muted;
+    const previous = sender.track;
+    await sender.replaceTrack(track);
+    previous?.stop();
+    this.startMeter(track);
+  }
+
+  private detachInput() {
+    this.peerConnection = null;
+    this.stopMeter();
+  }
+
+  private startMeter(track: MediaStreamTrack) {
+    this.stopMeter();
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(new MediaStream([track])).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    const timer = setInterval(() => {
+      // A disabled (muted) track reads as silence; report only while capturing
+      if (this.muted) return;
+      analyser.getFloatTimeDomainData(samples);
+      this.emit('inputLevel', measureFloat32(samples));
+    }, METER_INTERVAL_MS);
+    this.meter = { context, timer };
+  }
+
+  private stopMeter() {
+    if (!this.meter) return;
+    clearInterval(this.meter.timer);
+    void this.meter.context.close();
+    this.meter = null;
+  }
+
+  // Fade out fadeMs before the limit, then clear the output buffer at it
+  private scheduleLimit(responseId: string) {
+    this.clearLimit();
+    if (!this.outputLimit) return;
+
+    const { limitMs, fadeMs } = this.outputLimit;
+    this.limitTimer = setTimeout(() => {
+      this.limitTimer = null;
+      const element = this.audioElement;
+      if (!element) {
+        this.cutAtLimit(responseId);
+        return;
+      }
+
+      this.volumeBeforeFade = element.volume;
+      const step = this.volumeBeforeFade / Math.max(1, fadeMs / FADE_STEP_MS);
+      this.fadeTimer = setInterval(() => {
+        element.volume = Math.max(0, element.volume - step);
+        if (element.volume === 0) this.cutAtLimit(responseId);
+      }, FADE_STEP_MS);
+    }, Math.max(0, limitMs - fadeMs));
+  }
+
+  private cutAtLimit(responseId: string) {
+    const item = this.itemsByResponse.get(responseId);
+    if (!item || item.startedAt === null || !this.pending.has(responseId)) {
+      this.clearLimit();
+      return;
+    }
+
+    const playedMs = Date.now() - item.startedAt;
+    const queuedMs = Math.max(playedMs, item.words * ESTIMATED_MS_PER_WORD);
+    this.clearOutputBuffer();
+    this.finish(responseId, true);
+    this.emit('outputLimited', { itemId: item.itemId, playedMs, queuedMs });
+  }
+
+  // The data channel may already be closed (a dropped connection is being
+  // cleaned up); sendEvent throws then, and there is nothing left to clear
+  private clearOutputBuffer() {
+    const transport = this.session?.transport;
+    if (transport?.status !== 'connected') return;
+    try {
+      transport.sendEvent({ type: 'output_audio_buffer.clear' });
+    } catch (error) {
+      console.warn('⚠️ Could not clear the output audio buffer:', error);
+    }
+  }
+
+  // Stop any pending fade; the volume comes back once the cleared audio is gone
+  private clearLimit() {
+    if (this.limitTimer) clearTimeout(this.limitTimer);
+    if (this.fadeTimer) clearInterval(this.fadeTimer);
+    this.limitTimer = null;
+    this.fadeTimer = null;
+
+    const faded = this.volumeBeforeFade !== null;
+    this.volumeBeforeFade = null;
+    if (faded && this.audioElement) {
+      const element = this.audioElement;
+      setTimeout(() => (element.volume = this.output.volume), FADE_STEP_MS * 2);
+    }
+  }
+
+  private finish(responseId: string, interrupted: boolean) {
+    const item = this.itemsByResponse.get(responseId);
+    const wasPending = this.pending.delete(responseId);
+    if (this.audible === responseId) {
+      this.audible = null;
+      this.clearLimit();
+    }
+    if (!item || !wasPending) return;
+
+    const playedMs = item.startedAt !== null ? Date.now() - item.startedAt : 0;
+    this.emit('playbackFinished', item.itemId, {
+      playedMs,
+      queuedMs: interrupted ? Math.max(playedMs, item.words * ESTIMATED_MS_PER_WORD) : playedMs,
+      interrupted,
+    });
+  }
+
+  private finishAll(interrupted: boolean) {
+    [...this.pending].forEach((responseId) => this.finish(responseId, interrupted));
+    this.audible = null;
+  }
+}
@@ -0,0 +1,317 @@
+// WebSocket audio path: WavRecorder → sendAudio() for input, base64 audio
+// deltas → WavStreamPlayer for output, with PlaybackTracker reporting what
+// has actually been heard. An output limit is applied to the samples before
+// they are queued, so the fade-out is exact. Switching input device ends the
+// recorder and begins it again on the new device.
+//
+// Output settings: each new player stream is rerouted through a GainNode for
+// volume, and samples are resampled for playback speed after the limit is
+// applied. Played/queued times are scaled back by the item's rate, so the
+// controller keeps seeing milliseconds of the audio the server sent.
+//
+// The last few items' queued audio (after the limit, before resampling) is
+// kept for replay.
+
+import type { RealtimeSession, TransportEvent } from '@openai/agents/realtime';
+import { WavRecorder, WavStreamPlayer } from 'wavtools';
+import { TypedEventEmitter } from './typedEventEmitter';
+import { PlaybackInterruptResult, PlaybackTracker } from './playbackTracker';
+import type { AudioTransport, AudioTransportEvents } from './audioTransport';
+import { applyFadeLimit, OUTPUT_SAMPLE_RATE } from './durationLimit';
+import { measurePcm16 } from './inputLevel';
+import { DEFAULT_OUTPUT, OutputSettings, resamplePcm16 } from './outputAudio';
+
+const SAMPLE_RATE = OUTPUT_SAMPLE_RATE;
+
+// Items whose audio is kept for replay; a 20s response is about 1MB
+const MAX_RECORDED_ITEMS = 20;
+
+export class WebSocketAudioTransport
+  extends TypedEventEmitter<AudioTransportEvents>
+  implements AudioTransport
+{
+  readonly kind = 'websocket' as const;
+  readonly recorder: WavRecorder;
+  readonly player: WavStreamPlayer;
+  readonly playback: PlaybackTracker;
+
+  private session: RealtimeSession<any> | null = null;
+  private muted = false;
+  private recorderReady = false;
+  private deviceId: string | null = null;
+  private outputLimit: { limitMs: number; fadeMs: number } | null = null;
+  private receivedMs = new Map<string, number>(); // Output audio received per item
+  private limited = new Set<string>(); // Items cut at the limit
+  private output: OutputSettings = DEFAULT_OUTPUT;
+  private gain: GainNode | null = null;
+  private routedStream: unknown = null; // Player stream currently wired through the gain
+  private itemRates = new Map<string, number>(); // Playback rate each item was queued at
+  private recorded = new Map<string, Int16Array[]>(); // Queued chunks per item, oldest first
+
+  constructor(recorder?: WavRecorder, player?: WavStreamPlayer) {
+    super();
+    this.recorder = recorder ?? new WavRecorder({ sampleRate: SAMPLE_RATE });
+    this.player = player ?? new WavStreamPlayer({ sampleRate: SAMPLE_RATE });
+    this.playback = new PlaybackTracker(this.player);
+
+    this.playback.on('playbackStarted', (itemId) => this.emit('playbackStarted', itemId));
+    this.playback.on('playbackFinished', (itemId, info) =>
+      this.emit('playbackFinished', itemId, {
+        ...info,
+        playedMs: this.toSourceMs(itemId, info.playedMs),
+        queuedMs: this.toSourceMs(itemId, info.queuedMs),
+      })
+    );
+  }
+
+  get isActive(): boolean {
+    return this.playback.isActive;
+  }
+
+  get isAudible(): boolean {
+    return this.playback.isAudible;
+  }
+
+  createTransportLayer(): 'websocket' {
+    return 'websocket';
+  }
+
+  async prepare(): Promise<void> {
+    await this.player.connect();
+    console.log('Player connected');
+    await this.applySink();
+  }
+
+  async start(session: RealtimeSession<any>): Promise<void> {
+    this.session = session;
+    if (!this.recorderReady) {
+      await this.recorder.begin(this.deviceId ?? undefined);
+      this.recorderReady = true;
+      console.log('Recorder initialized');
+    }
+    if (!this.muted) {
+      await this.startRecording();
+      console.log('Recording started');
+    }
+  }
+
+  async setMuted(muted: boolean): Promise<void> {
+    if (muted === this.muted) return;
+
+    if (muted) {
+      await this.recorder.pause();
+    } else {
+      await this.startRecording();
+    }
+    this.muted = muted;
+  }
+
+  async setInputDevice(deviceId: string | null): Promise<void> {
+    this.deviceId = deviceId;
+    if (!this.recorderReady) return; // Used by the next begin()
+
+    await this.recorder.end();
+    this.recorderReady = false;
+    await this.recorder.begin(deviceId ?? undefined);
+    this.recorderReady = true;
+    if (this.session && !this.muted) {
+      await this.startRecording();
+    }
+    console.log(`🎤 Recorder switched to ${deviceId ?? 'the default device'}`);
+  }
+
+  async suspend(): Promise<void> {
+    this.session = null;
+    if (!this.muted) {
+      await this.recorder.pause().catch(() => undefined);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.session = null;
+    await this.playback.interrupt();
+    this.playback.reset();
+    if (this.recorderReady) {
+      await this.recorder.end();
+      this.recorderReady = false;
+    }
+    this.muted = false;
+  }
+
+  handleTransportEvent(event: TransportEvent, dropAudio: boolean) {
+    // Handle audio output from agent responses
+    if (event.type === 'response.output_audio.delta') {
+      console.log('🔊 Audio delta received, size:', event.delta?.length);
+      // @ts-ignore - audio delta structure
+      const audioData = event.delta;
+      // Drop deltas that arrive for a response we already interrupted
+      if (audioData && !dropAudio) {
+        // Decode base64 audio data
+        const binaryString = atob(audioData);
+        const bytes = new Uint8Array(binaryString.length);
+        for (let i = 0; i < binaryString.length; i++) {
+          bytes[i] = binaryString.charCodeAt(i);
+        }
+        const int16Array = new Int16Array(bytes.buffer);
+        this.enqueueLimited(event.item_id, int16Array);
+      }
+    }
+
+    // Track when audio generation finishes (not playback)
+    if (event.type === 'response.output_audio.done') {
+      console.log('🔇 Audio generation complete (playback may continue)');
+      // @ts-ignore
+      this.playback.markComplete(event.item_id);
+    }
+  }
+
+  async interrupt(): Promise<PlaybackInterruptResult | null> {
+    const result = await this.playback.interrupt();
+    if (!result) return null;
+    return {
+      ...result,
+      playedMs: this.toSourceMs(result.itemId, result.playedMs),
+      queuedMs: this.toSourceMs(result.itemId, result.queuedMs),
+    };
+  }
+
+  setOutputLimit(limitMs: number | null, fadeMs: number) {
+    this.outputLimit = limitMs === null ? null : { limitMs, fadeMs };
+  }
+
+  async setOutput(output: OutputSettings): Promise<void> {
+    const deviceChanged = output.deviceId !== this.output.deviceId;
+    this.output = output;
+    if (this.gain) {
+      this.gain.gain.value = output.volume;
+    }
+    // Playback rate applies to audio queued from now on
+    if (deviceChanged) {
+      await this.applySink();
+    }
+  }
+
+  recordedAudio(itemId: string): Int16Array | null {
+    const chunks = this.recorded.get(itemId);
+    if (!chunks) return null;
+
+    const samples = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach((chunk) => {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return samples;
+  }
+
+  reset() {
+    this.playback.reset();
+    this.receivedMs.clear();
+    this.limited.clear();
+    this.itemRates.clear();
+  }
+
+  dispose() {
+    this.playback.dispose();
+    this.removeAllListeners();
+  }
+
+  private enqueueLimited(itemId: string, samples: Int16Array) {
+    const startMs = this.receivedMs.get(itemId) ?? 0;
+    const receivedMs = startMs + (samples.length / SAMPLE_RATE) * 1000;
+    this.receivedMs.set(itemId, receivedMs);
+    if (this.limited.has(itemId)) return;
+
+    if (!this.outputLimit) {
+      this.enqueue(itemId, samples);
+      return;
+    }
+
+    const { limitMs, fadeMs } = this.outputLimit;
+    const limited = applyFadeLimit(samples, startMs, limitMs, fadeMs, SAMPLE_RATE);
+    if (limited.samples.length > 0) {
+      this.enqueue(itemId, limited.samples);
+    }
+    if (limited.reachedLimit) {
+      this.limited.add(itemId);
+      // Nothing more will be queued; let the item finish when this drains
+      this.playback.markComplete(itemId);
+      // queuedMs is only what has arrived so far; the controller measures the
+      // transcript against the item's full generated length once it is known
+      this.emit('outputLimited', { itemId, playedMs: Math.round(limitMs), queuedMs: receivedMs });
+    }
+  }
+
+  private enqueue(itemId: string, samples: Int16Array) {
+    // An item keeps the rate it started with so its timing stays consistent
+    let rate = this.itemRates.get(itemId);
+    if (rate === undefined) {
+      rate = this.output.playbackRate;
+      this.itemRates.set(itemId, rate);
+    }
+    this.record(itemId, samples);
+    this.playback.enqueue(itemId, resamplePcm16(samples, rate));
+    this.routeThroughGain();
+  }
+
+  private record(itemId: string, samples: Int16Array) {
+    const chunks = this.recorded.get(itemId);
+    if (chunks) {
+      chunks.push(samples);
+      return;
+    }
+    this.recorded.set(itemId, [samples]);
+    if (this.recorded.size > MAX_RECORDED_ITEMS) {
+      this.recorded.delete(this.recorded.keys().next().value!);
+    }
+  }
+
+  /** Convert played time back to time in the audio as the server sent it. */
+  private toSourceMs(itemId: string, ms: number): number {
+    return ms * (this.itemRates.get(itemId) ?? 1);
+  }
+
+  // WavStreamPlayer wires each new stream straight to the speakers; move it
+  // behind the gain node (keeping the analyser the player reads from)
+  private routeThroughGain() {
+    const { context, stream, analyser } = this.player;
+    if (!context || !stream || stream === this.routedStream) return;
+
+    if (!this.gain) {
+      this.gain = context.createGain() as GainNode;
+      this.gain.connect(context.destination);
+    }
+    this.gain.gain.value = this.output.volume;
+    stream.disconnect();
+    stream.connect(this.gain);
+    stream.connect(analyser);
+    this.routedStream = stream;
+  }
+
+  private async applySink() {
+    const context = this.player.context as (AudioContext & { setSinkId?(sinkId: string): Promise<void> }) | null;
+    if (!context?.setSinkId) return; // Not supported: stays on the default output
+    try {
+      await context.setSinkId(this.output.deviceId ?? '');
+      console.log(`🔈 Output routed to ${this.output.deviceId ?? 'the default device'}`);
+    } catch (error) {
+      console.error('Failed to switch output device:', error);
+    }
+  }
+
+  private async startRecording() {
+    await this.recorder.record(async (data: any) => {
+      // Send audio to the session
+      if (data.mono && this.session) {
+        this.emit('inputLevel', measurePcm16(new Int16Array(data.mono)));
+        try {
+          await this.session.sendAudio(data.mono as unknown as ArrayBuffer);
+          // Int16 mono; anchors server audio offsets to wall-clock time
+          this.emit('audioSent', (data.mono.byteLength / 2 / SAMPLE_RATE) * 1000);
+        } catch (error) {
+          console.error('Error sending audio:', error);
+        }
+      }
+    });
+  }
+}